@@ -11,6 +11,71 @@ const TOKEN_ADDRESSES = {
   USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // USDC on Base
 };
 
+// ETH/USDC trading grid (mirrors the server's market registry)
+const PRICE_TICK = BigInt("10000000000000000"); // 0.01 USDC, prices scaled by 1e18
+const SIZE_LOT = BigInt("100000000000000"); // 0.0001 ETH
+
+// EIP-712 order schema (mirrors shared/types/order.ts)
+const ORDER_EIP712_DOMAIN = { name: "P2P Order Book", version: "1" };
+const ORDER_EIP712_TYPES = {
+  EIP712Domain: [
+    { name: "name", type: "string" },
+    { name: "version", type: "string" },
+  ],
+  Order: [
+    { name: "maker", type: "address" },
+    { name: "baseToken", type: "address" },
+    { name: "quoteToken", type: "address" },
+    { name: "side", type: "string" },
+    { name: "price", type: "uint256" },
+    { name: "size", type: "uint256" },
+    { name: "minFill", type: "uint256" },
+    { name: "allOrNone", type: "bool" },
+    { name: "expiry", type: "uint64" },
+    { name: "timeInForce", type: "string" },
+    { name: "orderType", type: "string" },
+    { name: "maxSlippageBps", type: "uint32" },
+    { name: "selfTradePrevention", type: "string" },
+    { name: "triggerType", type: "string" },
+    { name: "triggerPrice", type: "uint256" },
+    { name: "displaySize", type: "uint256" },
+    { name: "channelId", type: "bytes32" },
+    { name: "nonce", type: "string" },
+  ],
+};
+
+// Mirrors TimeInForce in shared/types/order.ts
+type TimeInForce = "GTC" | "GTD" | "IOC" | "FOK" | "POST_ONLY" | "POST_ONLY_SLIDE";
+
+// Order fields covered by the EIP-712 signature
+interface SignedOrderMessage {
+  maker: string;
+  baseToken: string;
+  quoteToken: string;
+  side: OrderSide;
+  price: string;
+  size: string;
+  minFill: string;
+  allOrNone: boolean;
+  expiry: number;
+  timeInForce: TimeInForce;
+  orderType: "limit" | "market";
+  maxSlippageBps: number;
+  selfTradePrevention: "" | "cancel_newest" | "cancel_oldest" | "cancel_both" | "decrement_and_cancel"; // "" = account default
+  triggerType: "" | "stop" | "take_profit"; // "" = not a trigger order
+  triggerPrice: string;
+  displaySize: string; // "0" = fully visible (not an iceberg)
+  channelId: string;
+  nonce: string;
+}
+
+// Market orders fill at most 1% away from the best opposite price
+const MARKET_ORDER_SLIPPAGE_BPS = 100;
+
+// Round a decimal amount down onto a grid of `step` wei
+const toGridWei = (value: string, stepsPerUnit: number, step: bigint): bigint =>
+  BigInt(Math.floor(parseFloat(value) * stepsPerUnit)) * step;
+
 type Token = "ETH" | "USDC";
 type OrderSide = "buy" | "sell";
 
@@ -32,7 +97,7 @@ interface UserOrder {
   price: string;
   orderType: "market" | "limit";
   expiry: string;
-  status: "open" | "filled" | "cancelled" | "partially_filled";
+  status: "open" | "filled" | "cancelled" | "partially_filled" | "expired";
   fillStatus?: "unfilled" | "partially_filled" | "filled";
   timestamp: number;
 }
@@ -65,6 +130,7 @@ export default function Home() {
   const [positionsTab, setPositionsTab] = useState<"open" | "history">("open");
   const [wsStatus, setWsStatus] = useState<"disconnected" | "connecting" | "connected" | "reconnecting" | "reconnect_failed">("disconnected");
   const wsClient = useRef<WebSocketClient | null>(null);
+  const signedOrders = useRef(new Map<string, SignedOrderMessage>()); // Terms last signed per order id
 
   // Real-time market price from DexScreener
   const [marketPrice, setMarketPrice] = useState(2819.02);
@@ -139,6 +205,21 @@ export default function Home() {
     }
   };
 
+  // Sign order terms (EIP-712) so the server and third parties can verify them
+  const signOrderMessage = async (orderMessage: SignedOrderMessage): Promise<string> =>
+    window.ethereum.request({
+      method: 'eth_signTypedData_v4',
+      params: [
+        walletAddress,
+        JSON.stringify({
+          types: ORDER_EIP712_TYPES,
+          primaryType: "Order",
+          domain: ORDER_EIP712_DOMAIN,
+          message: orderMessage,
+        }),
+      ],
+    });
+
   const handleConfirmOrder = async () => {
     if (!walletAddress) {
       alert("Please connect your wallet first!");
@@ -186,15 +267,36 @@ export default function Home() {
         
         console.log('Order updated successfully:', updatedOrder);
         
-        // Send update to WebSocket server
-        if (wsClient.current?.isConnected) {
+        // Amend the order on the server (cancel-replace, re-signed by the maker)
+        const signedOrder = signedOrders.current.get(editingOrderId);
+        if (wsClient.current?.isConnected && signedOrder) {
+          const priceInWei = toGridWei(limitPrice || marketPrice.toString(), 100, PRICE_TICK);
+          const sizeInWei = toGridWei(orderFormTab === "long" ? buyAmount : sellAmount, 10000, SIZE_LOT);
+
+          const amendedMessage: SignedOrderMessage = {
+            ...signedOrder,
+            price: priceInWei.toString(),
+            size: sizeInWei.toString(),
+            minFill: (sizeInWei / BigInt(10) / SIZE_LOT * SIZE_LOT).toString(),
+            nonce: Date.now().toString(),
+          };
+          const signature = await signOrderMessage(amendedMessage);
+
           wsClient.current.send({
             type: 'order.update',
             data: {
               id: editingOrderId,
-              ...updatePayload,
+              price: amendedMessage.price,
+              size: amendedMessage.size,
+              minFill: amendedMessage.minFill,
+              expiry: amendedMessage.expiry,
+              nonce: amendedMessage.nonce,
+              signature,
             },
           });
+          signedOrders.current.set(editingOrderId, amendedMessage);
+        } else {
+          console.warn('⚠️ Order not amended on server (not connected or not signed in this session)');
         }
         
         // Fetch fresh data from Supabase
@@ -216,7 +318,7 @@ export default function Home() {
           sell_amount: orderFormTab === "long" ? finalSellAmount : sellAmount,
           buy_amount: orderFormTab === "long" ? buyAmount : finalBuyAmount,
           price: limitPrice || marketPrice.toString(),
-          order_type: "limit" as const,
+          order_type: orderType,
           expiry,
           status: "open" as const,
         };
@@ -230,25 +332,42 @@ export default function Home() {
           console.log('📤 Sending order to server for matching...');
           
           // Convert order to server format with proper BigInt strings
-          const priceInWei = Math.floor(parseFloat(limitPrice || marketPrice.toString()) * 1e18);
-          const sizeInWei = Math.floor(parseFloat(orderFormTab === "long" ? buyAmount : sellAmount) * 1e18);
+          const priceInWei = toGridWei(limitPrice || marketPrice.toString(), 100, PRICE_TICK);
+          const sizeInWei = toGridWei(orderFormTab === "long" ? buyAmount : sellAmount, 10000, SIZE_LOT);
           
           // IMPORTANT: Both buy and sell orders must use the same token pair
           // baseToken = ETH (what we're trading)
           // quoteToken = USDC (what we're pricing in)
-          const serverOrder = {
-            id: orderId,
+          // Market orders let the server bound the price by slippage instead
+          const isMarket = orderType === "market";
+          const orderMessage: SignedOrderMessage = {
             maker: walletAddress,
             baseToken: TOKEN_ADDRESSES.ETH, // Always ETH as base
             quoteToken: TOKEN_ADDRESSES.USDC, // Always USDC as quote
             side: orderFormTab === "long" ? "buy" : "sell",
-            price: priceInWei.toFixed(0), // No decimals, no scientific notation
-            size: sizeInWei.toFixed(0),
-            minFill: Math.floor(sizeInWei * 0.1).toFixed(0), // Allow partial fills (10% minimum)
+            price: isMarket ? "0" : priceInWei.toString(), // No decimals, no scientific notation
+            size: sizeInWei.toString(),
+            minFill: (sizeInWei / BigInt(10) / SIZE_LOT * SIZE_LOT).toString(), // Allow partial fills (10% minimum, lot-aligned)
+            allOrNone: false,
             expiry: Math.floor(Date.now() / 1000) + 3600, // 1 hour from now
-            channelId: "0x0000000000000000000000000000000000000000000000000000000000000000", // Will be replaced by server with real channel
+            timeInForce: isMarket ? "IOC" : "GTD",
+            orderType,
+            maxSlippageBps: isMarket ? MARKET_ORDER_SLIPPAGE_BPS : 0,
+            selfTradePrevention: "",
+            triggerType: "",
+            triggerPrice: "0",
+            displaySize: "0",
+            channelId: wsClient.current.channelId ?? "0x0000000000000000000000000000000000000000000000000000000000000000",
             nonce: Date.now().toString(),
-            signature: "0x0000000000000000000000000000000000000000000000000000000000000000",
+          };
+
+          const signature = await signOrderMessage(orderMessage);
+          signedOrders.current.set(orderId, orderMessage);
+
+          const serverOrder = {
+            id: orderId,
+            ...orderMessage,
+            signature,
           };
           
           console.log('📤 Sending order to server:', serverOrder);
@@ -335,22 +454,16 @@ export default function Home() {
 
       console.log("📝 Auto-signing session data:", requestToSign);
 
-      // Convert the request array to a JSON string for signing
+      // The server verifies a personal_sign of the exact JSON of the request
       const message = JSON.stringify(requestToSign);
-      
-      // Hash with keccak256 (matching server-side)
-      const encoder = new TextEncoder();
-      const data = encoder.encode(message);
-      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const messageHash = '0x' + hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-
-      console.log("📝 Message hash:", messageHash);
+      const messageHex = '0x' + Array.from(new TextEncoder().encode(message))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
 
       // Request signature from MetaMask
       const signature = await window.ethereum.request({
         method: 'personal_sign',
-        params: [messageHash, walletAddress],
+        params: [messageHex, walletAddress],
       });
 
       console.log("✍️ Signature obtained:", signature);
@@ -496,10 +609,21 @@ export default function Home() {
       reconnectDelay: 2000,
       maxReconnectAttempts: 5,
       requestTimeout: 10000,
+      signMessage: (address, message) =>
+        window.ethereum.request({
+          method: 'personal_sign',
+          params: [message, address],
+        }),
     });
 
     wsClient.current = ws;
 
+    // Follow the ETH/USDC book and trades
+    ws.subscribe([
+      `book:${TOKEN_ADDRESSES.ETH}/${TOKEN_ADDRESSES.USDC}`,
+      `trades:${TOKEN_ADDRESSES.ETH}/${TOKEN_ADDRESSES.USDC}`,
+    ]);
+
     // Listen to status changes
     ws.onStatusChange((status) => {
       console.log('WebSocket status:', status);
@@ -511,7 +635,7 @@ export default function Home() {
       console.log('WebSocket message:', message);
       
       // Handle real-time order updates
-      if (message.type === 'order.created' || message.type === 'order.updated' || message.type === 'order.cancelled') {
+      if (message.type === 'order.created' || message.type === 'order.updated' || message.type === 'order.cancelled' || message.type === 'order.expired') {
         // Reload orders when any order changes
         if (walletAddress) {
           loadOrders(walletAddress);
@@ -591,6 +715,7 @@ export default function Home() {
   useEffect(() => {
     if (walletAddress && wsClient.current && wsStatus === 'disconnected') {
       console.log('Connecting WebSocket for wallet:', walletAddress);
+      wsClient.current.subscribe([`orders:${walletAddress}`]);
       wsClient.current.connect(walletAddress).catch((error) => {
         console.error('Failed to connect WebSocket:', error);
       });
@@ -670,6 +795,15 @@ export default function Home() {
   const handleCancelOrder = async (orderId: string) => {
     try {
       await orderService.cancelOrder(orderId);
+
+      // Pull the order from the server's book so it can no longer be matched
+      if (wsClient.current?.isConnected) {
+        wsClient.current.send({
+          type: 'order.cancel',
+          data: { id: orderId },
+        });
+      }
+
       setUserOrders((prev) =>
         prev.map((order) =>
           order.id === orderId ? { ...order, status: "cancelled" } : order
@@ -1116,7 +1250,7 @@ export default function Home() {
                   : "text-zinc-400 hover:text-zinc-300"
               }`}
             >
-              Position History ({userOrders.filter(o => o.status === "filled" || o.status === "cancelled").length})
+              Position History ({userOrders.filter(o => o.status === "filled" || o.status === "cancelled" || o.status === "expired").length})
               {positionsTab === "history" && (
                 <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-white"></div>
               )}
@@ -1228,8 +1362,8 @@ export default function Home() {
                 </div>
               )
             ) : (
-              // Position History (filled and cancelled)
-              userOrders.filter(o => o.status === "filled" || o.status === "cancelled").length > 0 ? (
+              // Position History (filled, cancelled and expired)
+              userOrders.filter(o => o.status === "filled" || o.status === "cancelled" || o.status === "expired").length > 0 ? (
                 <div className="overflow-x-auto">
                   <table className="w-full">
                     <thead>
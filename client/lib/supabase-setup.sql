@@ -10,11 +10,16 @@ CREATE TABLE IF NOT EXISTS orders (
   price TEXT NOT NULL,
   order_type TEXT NOT NULL CHECK (order_type IN ('market', 'limit')),
   expiry TEXT NOT NULL,
-  status TEXT NOT NULL CHECK (status IN ('open', 'filled', 'cancelled')),
+  status TEXT NOT NULL CHECK (status IN ('open', 'filled', 'cancelled', 'expired')),
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Existing tables: allow the 'expired' status set by the server's expiry sweeper
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check
+  CHECK (status IN ('open', 'filled', 'cancelled', 'expired'));
+
 -- Create indexes for better query performance
 CREATE INDEX IF NOT EXISTS idx_orders_wallet ON orders(wallet_address);
 CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
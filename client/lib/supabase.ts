@@ -17,7 +17,7 @@ export interface UserOrderDB {
   price: string;
   order_type: 'market' | 'limit';
   expiry: string;
-  status: 'open' | 'filled' | 'cancelled';
+  status: 'open' | 'filled' | 'cancelled' | 'expired';
   created_at: string;
   updated_at: string;
 }
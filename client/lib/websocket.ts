@@ -16,6 +16,8 @@ export class WebSocketClient {
   private errorListeners: ((error: Error) => void)[] = [];
   private currentStatus: WSStatus = "disconnected";
   private walletAddress: string | null = null;
+  private subscriptions = new Set<string>();
+  private serverChannelId: string | null = null;
 
   constructor(
     private url: string,
@@ -24,6 +26,8 @@ export class WebSocketClient {
       reconnectDelay?: number;
       maxReconnectAttempts?: number;
       requestTimeout?: number;
+      // Signs the server's sign-in challenge (e.g. personal_sign)
+      signMessage?: (address: string, message: string) => Promise<string>;
     } = {}
   ) {
     this.options = {
@@ -39,6 +43,11 @@ export class WebSocketClient {
     return this.ws?.readyState === WebSocket.OPEN;
   }
 
+  // Server's Nitrolite channel, announced on auth.success (orders sign it)
+  get channelId(): string | null {
+    return this.serverChannelId;
+  }
+
   get status(): WSStatus {
     return this.currentStatus;
   }
@@ -66,11 +75,14 @@ export class WebSocketClient {
           this.reconnectAttempts = 0;
           this.setStatus("connected");
           
-          // Send auth message
+          // Request a sign-in challenge; auth completes in handleAuthMessage
           this.send({
-            type: "auth",
+            type: "auth.challenge",
             data: { address: this.walletAddress }
           });
+
+          // Restore public channel subscriptions (also covers reconnects)
+          this.resubscribe(channel => !channel.startsWith("orders:"));
           
           resolve();
         };
@@ -79,6 +91,7 @@ export class WebSocketClient {
           try {
             const message: WebSocketMessage = JSON.parse(event.data);
             console.log("📨 Received:", message.type);
+            this.handleAuthMessage(message);
             this.messageListeners.forEach(listener => listener(message));
           } catch (error) {
             console.error("Failed to parse message:", error);
@@ -174,6 +187,48 @@ export class WebSocketClient {
     });
   }
 
+  private handleAuthMessage(message: WebSocketMessage) {
+    if (message.type === "auth.challenge") {
+      if (!this.options.signMessage) {
+        console.warn("⚠️ No message signer configured, staying unauthenticated");
+        return;
+      }
+      const { address, nonce, message: challenge } = message.data;
+      this.options.signMessage(address, challenge)
+        .then(signature => this.send({ type: "auth", data: { nonce, signature } }))
+        .catch(error => console.error("Failed to sign auth challenge:", error));
+    } else if (message.type === "auth.success") {
+      this.serverChannelId = message.data?.channelId ?? null;
+      // Private channels need an authenticated wallet
+      this.resubscribe(channel => channel.startsWith("orders:"));
+    }
+  }
+
+  private resubscribe(filter: (channel: string) => boolean) {
+    const channels = Array.from(this.subscriptions).filter(filter);
+    if (channels.length > 0) {
+      this.send({ type: "subscribe", data: { channels } });
+    }
+  }
+
+  /**
+   * Subscribe to server channels, e.g. `book:<base>/<quote>`,
+   * `trades:<base>/<quote>` or `orders:<address>`
+   */
+  subscribe(channels: string[]) {
+    channels.forEach(channel => this.subscriptions.add(channel));
+    if (this.isConnected) {
+      this.send({ type: "subscribe", data: { channels } });
+    }
+  }
+
+  unsubscribe(channels: string[]) {
+    channels.forEach(channel => this.subscriptions.delete(channel));
+    if (this.isConnected) {
+      this.send({ type: "unsubscribe", data: { channels } });
+    }
+  }
+
   close() {
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
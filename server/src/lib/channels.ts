@@ -0,0 +1,89 @@
+/**
+ * ============================================================================
+ * WEBSOCKET SUBSCRIPTION CHANNELS
+ * ============================================================================
+ *
+ * Channel names clients subscribe to on the WebSocket server
+ *
+ * CHANNELS:
+ * - book:<base>/<quote>   Order book changes for a market
+ * - trades:<base>/<quote> Matched trades for a market
+ * - orders:<address>      Order and trade events for one wallet (owner only)
+ *
+ * `book:*` and `trades:*` follow every market.
+ * ============================================================================
+ */
+
+import { marketKey } from '../orderbook/MarketBook';
+
+export type ChannelKind = 'book' | 'trades' | 'orders';
+
+export interface ParsedChannel {
+  readonly name: string; // Normalized channel name
+  readonly kind: ChannelKind;
+  readonly baseToken?: string;
+  readonly quoteToken?: string;
+  readonly address?: string;
+}
+
+const WILDCARD = '*';
+
+export function bookChannel(baseToken: string, quoteToken: string): string {
+  return `book:${marketKey(baseToken, quoteToken)}`;
+}
+
+export function tradesChannel(baseToken: string, quoteToken: string): string {
+  return `trades:${marketKey(baseToken, quoteToken)}`;
+}
+
+export function ordersChannel(address: string): string {
+  return `orders:${address.toLowerCase()}`;
+}
+
+/**
+ * Wildcard channel that also receives a market channel's events
+ */
+export function wildcardFor(channel: string): string | undefined {
+  const kind = channel.split(':', 1)[0];
+  return kind === 'book' || kind === 'trades' ? `${kind}:${WILDCARD}` : undefined;
+}
+
+/**
+ * Parse and normalize a channel name, throwing on anything malformed
+ */
+export function parseChannel(channel: unknown): ParsedChannel {
+  if (typeof channel !== 'string') {
+    throw new Error('Channel must be a string');
+  }
+
+  const separator = channel.indexOf(':');
+  const kind = channel.slice(0, separator);
+  const target = channel.slice(separator + 1);
+
+  if (separator === -1 || !target) {
+    throw new Error(`Invalid channel: ${channel}`);
+  }
+
+  switch (kind) {
+    case 'book':
+    case 'trades': {
+      if (target === WILDCARD) {
+        return { name: `${kind}:${WILDCARD}`, kind };
+      }
+      const [baseToken, quoteToken, ...rest] = target.split('/');
+      if (!baseToken || !quoteToken || rest.length > 0) {
+        throw new Error(`Invalid market in channel: ${channel}`);
+      }
+      return { name: `${kind}:${marketKey(baseToken, quoteToken)}`, kind, baseToken, quoteToken };
+    }
+
+    case 'orders':
+      if (!/^0x[a-fA-F0-9]{40}$/.test(target)) {
+        throw new Error(`Invalid address in channel: ${channel}`);
+      }
+      return { name: ordersChannel(target), kind, address: target.toLowerCase() };
+
+    default:
+      throw new Error(`Unknown channel type: ${kind}`);
+  }
+}
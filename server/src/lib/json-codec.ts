@@ -0,0 +1,43 @@
+/**
+ * ============================================================================
+ * JSON CODEC FOR PERSISTED STATE
+ * ============================================================================
+ *
+ * JSON.stringify/parse helpers for state written to disk (trade sessions,
+ * order book journal) that keep values plain JSON cannot hold
+ *
+ * ENCODING:
+ * - bigint → { "$bigint": "<decimal>" }
+ * - Map    → { "$map": [[key, value], ...] }
+ * ============================================================================
+ */
+
+export function jsonReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (value instanceof Map) {
+    return { $map: Array.from(value.entries()) };
+  }
+  return value;
+}
+
+export function jsonReviver(_key: string, value: any): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    if (typeof value.$bigint === 'string') {
+      return BigInt(value.$bigint);
+    }
+    if (Array.isArray(value.$map)) {
+      return new Map(value.$map);
+    }
+  }
+  return value;
+}
+
+export function encodeJson(value: unknown, space?: number): string {
+  return JSON.stringify(value, jsonReplacer, space);
+}
+
+export function decodeJson<T>(text: string): T {
+  return JSON.parse(text, jsonReviver) as T;
+}
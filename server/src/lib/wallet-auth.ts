@@ -0,0 +1,150 @@
+/**
+ * ============================================================================
+ * WALLET AUTHENTICATION FOR WEBSOCKET CLIENTS
+ * ============================================================================
+ *
+ * Challenge-response login using Sign-In with Ethereum (EIP-4361)
+ *
+ * FLOW:
+ * 1. Client asks for a challenge for its address
+ * 2. Server issues a single-use nonce inside a SIWE message
+ * 3. Client signs the message with personal_sign
+ * 4. Server recovers the signer and binds the address to the connection
+ *
+ * Challenges are tied to the connection that requested them, expire after
+ * a TTL and are deleted on first use (successful or not).
+ * ============================================================================
+ */
+
+import { randomBytes } from 'node:crypto';
+import { ethers } from 'ethers';
+
+export interface WalletAuthOptions {
+  readonly domain: string;
+  readonly uri: string;
+  readonly chainId: number;
+  readonly challengeTtlMs: number;
+  readonly statement?: string;
+  readonly now?: () => number;
+}
+
+export interface AuthChallenge {
+  readonly nonce: string;
+  readonly address: string;
+  readonly connectionId: string;
+  readonly message: string;
+  readonly issuedAt: number;
+  readonly expiresAt: number;
+}
+
+export class WalletAuthenticator {
+  private challenges = new Map<string, AuthChallenge>(); // By nonce
+  private readonly now: () => number;
+
+  constructor(private readonly options: WalletAuthOptions) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Issue a new challenge for an address on a connection
+   */
+  issueChallenge(connectionId: string, address: string): AuthChallenge {
+    if (!ethers.utils.isAddress(address)) {
+      throw new Error(`Invalid address: ${address}`);
+    }
+
+    this.pruneExpired();
+
+    const checksummed = ethers.utils.getAddress(address);
+    const nonce = randomBytes(16).toString('hex');
+    const issuedAt = this.now();
+    const expiresAt = issuedAt + this.options.challengeTtlMs;
+
+    const challenge: AuthChallenge = {
+      nonce,
+      address: checksummed,
+      connectionId,
+      message: this.buildMessage(checksummed, nonce, issuedAt, expiresAt),
+      issuedAt,
+      expiresAt,
+    };
+
+    this.challenges.set(nonce, challenge);
+    return challenge;
+  }
+
+  /**
+   * Verify a signed challenge and return the recovered (checksummed) address.
+   * The challenge is consumed whether or not verification succeeds.
+   */
+  verify(connectionId: string, nonce: string, signature: string): string {
+    const challenge = this.challenges.get(nonce);
+    if (!challenge) {
+      throw new Error('Unknown or already used challenge');
+    }
+
+    this.challenges.delete(nonce);
+
+    if (challenge.connectionId !== connectionId) {
+      throw new Error('Challenge was issued to a different connection');
+    }
+
+    if (this.now() > challenge.expiresAt) {
+      throw new Error('Challenge expired');
+    }
+
+    let recovered: string;
+    try {
+      recovered = ethers.utils.verifyMessage(challenge.message, signature);
+    } catch {
+      throw new Error('Malformed signature');
+    }
+
+    if (recovered.toLowerCase() !== challenge.address.toLowerCase()) {
+      throw new Error(`Signature does not match ${challenge.address}`);
+    }
+
+    return challenge.address;
+  }
+
+  /**
+   * Drop outstanding challenges for a closed connection
+   */
+  revokeConnection(connectionId: string): void {
+    for (const [nonce, challenge] of this.challenges) {
+      if (challenge.connectionId === connectionId) {
+        this.challenges.delete(nonce);
+      }
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = this.now();
+    for (const [nonce, challenge] of this.challenges) {
+      if (now > challenge.expiresAt) {
+        this.challenges.delete(nonce);
+      }
+    }
+  }
+
+  /**
+   * Build an EIP-4361 message
+   */
+  private buildMessage(address: string, nonce: string, issuedAt: number, expiresAt: number): string {
+    const { domain, uri, chainId, statement } = this.options;
+
+    return [
+      `${domain} wants you to sign in with your Ethereum account:`,
+      address,
+      '',
+      statement ?? 'Sign in to the P2P Order Book.',
+      '',
+      `URI: ${uri}`,
+      'Version: 1',
+      `Chain ID: ${chainId}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${new Date(issuedAt).toISOString()}`,
+      `Expiration Time: ${new Date(expiresAt).toISOString()}`,
+    ].join('\n');
+  }
+}
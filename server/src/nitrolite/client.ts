@@ -9,6 +9,8 @@ import {
   createAuthVerifyMessageWithJWT,
   createGetChannelsMessage,
   createPingMessage,
+  generateRequestId,
+  getCurrentTimestamp,
   getError,
   getMethod,
   getParams,
@@ -16,6 +18,7 @@ import {
   getRequestId,
   RPCMethod,
   type MessageSigner,
+  type RPCData,
 } from '@erc7824/nitrolite';
 
 import type { YellowEnvConfig } from '../config/env';
@@ -37,6 +40,22 @@ interface NitroliteMessageContext {
   readonly requestId?: number;
 }
 
+interface PendingRequest {
+  readonly method: RPCMethod;
+  readonly resolve: (result: unknown) => void;
+  readonly reject: (error: Error) => void;
+  readonly timer: NodeJS.Timeout;
+}
+
+export interface RequestOptions {
+  /** Reuse the ID of a request that was signed elsewhere */
+  readonly requestId?: number;
+  /** Reuse the timestamp of a request that was signed elsewhere */
+  readonly timestamp?: number;
+  /** Defaults to the configured requestTimeoutMs */
+  readonly timeoutMs?: number;
+}
+
 export interface ChannelInfo {
   channelId: string;
   participant?: Address;
@@ -67,6 +86,7 @@ export class NitroliteClient {
   private reconnectTimer?: NodeJS.Timeout;
   private pingTimer?: NodeJS.Timeout;
   private shouldReconnect = true;
+  private pendingRequests = new Map<number, PendingRequest>();
 
   constructor(
     private readonly config: YellowEnvConfig,
@@ -167,6 +187,58 @@ export class NitroliteClient {
     }
   }
 
+  /**
+   * Send an RPC request and resolve with the result of the response carrying
+   * the same request ID. Signed with the session key unless `signatures` are
+   * given, e.g. for a multi-party request signed elsewhere (pass its
+   * requestId and timestamp so the signed payload is unchanged).
+   */
+  async request<T = unknown>(
+    method: RPCMethod,
+    params: object,
+    signatures?: Hex[],
+    options: RequestOptions = {},
+  ): Promise<T> {
+    if (!this.isConnected) {
+      throw new Error('Nitrolite client not connected');
+    }
+
+    const requestId = options.requestId ?? this.nextRequestId();
+    const req: RPCData = [requestId, method, params, options.timestamp ?? getCurrentTimestamp()];
+    const sig = signatures ?? [await this.sessionMessageSigner(req)];
+    const timeoutMs = options.timeoutMs ?? this.config.requestTimeoutMs;
+
+    return new Promise<T>((resolve, reject) => {
+      if (this.pendingRequests.has(requestId)) {
+        reject(new Error(`Request ${requestId} is already pending`));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new Error(`${method} request ${requestId} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      this.pendingRequests.set(requestId, {
+        method,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        timer,
+      });
+
+      try {
+        this.sendMessage(JSON.stringify({ req, sig }));
+        logger.nitro(`▶ Sent ${method} (request ${requestId})`);
+      } catch (error) {
+        this.failRequest(requestId, error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  get pendingRequestCount(): number {
+    return this.pendingRequests.size;
+  }
+
   // ========================================
   // Private: Session Key Initialization
   // ========================================
@@ -350,6 +422,12 @@ export class NitroliteClient {
     const requestIdValue = getRequestId(parsed);
     const requestId = typeof requestIdValue === 'number' ? requestIdValue : undefined;
 
+    // Responses to request() go to their caller only
+    if (requestId !== undefined && this.pendingRequests.has(requestId) && !parsed.req) {
+      this.settleRequest(requestId, parsed);
+      return;
+    }
+
     if (error) {
       this.events.emit('nitrolite.rpc.error', error);
       return;
@@ -521,6 +599,55 @@ export class NitroliteClient {
     });
   }
 
+  // ========================================
+  // Private: Request Correlation
+  // ========================================
+
+  private nextRequestId(): number {
+    let requestId = generateRequestId();
+    while (this.pendingRequests.has(requestId)) {
+      requestId += 1;
+    }
+    return requestId;
+  }
+
+  private settleRequest(requestId: number, parsed: any) {
+    const pending = this.pendingRequests.get(requestId)!;
+    const error = getError(parsed);
+    const method = getMethod(parsed) as RPCMethod | undefined;
+
+    if (error) {
+      this.failRequest(requestId, new Error(`${pending.method} failed: ${error.message}`));
+      return;
+    }
+    if (method === RPCMethod.Error) {
+      const params = this.unwrapPayload(getResult(parsed)) as { error?: string };
+      this.failRequest(requestId, new Error(`${pending.method} failed: ${params?.error ?? 'Unknown ClearNode error'}`));
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(requestId);
+    logger.nitro(`◀ Received ${method ?? pending.method} (request ${requestId})`);
+    pending.resolve(getResult(parsed));
+  }
+
+  private failRequest(requestId: number, error: Error) {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(requestId);
+    logger.error(`${pending.method} request ${requestId} failed`, error.message);
+    pending.reject(error);
+  }
+
+  private failPendingRequests(reason: string) {
+    for (const requestId of Array.from(this.pendingRequests.keys())) {
+      this.failRequest(requestId, new Error(reason));
+    }
+  }
+
   // ========================================
   // Private: Channel Normalization
   // ========================================
@@ -674,6 +801,7 @@ export class NitroliteClient {
 
   private cleanup() {
     this.stopHeartbeat();
+    this.failPendingRequests('ClearNode connection closed');
     if (this.socket) {
       this.socket.removeAllListeners();
       this.socket = undefined;
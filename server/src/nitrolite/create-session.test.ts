@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { TOKENS } from '@shared/markets/registry';
+import type { MarketConfig } from '@shared/types/market';
+import { ALICE, BOB, ETH, clearNode, makeOrder } from '../orderbook/test-fixtures';
+import { generateTradeSessionMessage } from './create-session';
+import { InMemoryTradeSessionStore } from './session-storage';
+import { toActiveTradeSession } from './sign-sessions';
+import { setLoggerSilenced } from './utils/logger';
+
+// ETH/USDC with a quote token of 2 decimals instead of 6
+const cents: MarketConfig = {
+  symbol: 'ETH/USDC',
+  base: TOKENS.ETH,
+  quote: { ...TOKENS.USDC, decimals: 2 },
+  tickSize: 10n ** 16n,
+  lotSize: 10n ** 14n,
+  minNotional: 100n,
+};
+
+describe('generateTradeSessionMessage', () => {
+  beforeAll(() => setLoggerSilenced(true));
+
+  it('prices the trade with the market it is given', async () => {
+    const sessions = new InMemoryTradeSessionStore();
+    const ask = makeOrder({ id: 'ask', maker: ALICE, side: 'sell' });
+
+    const { appSessionData } = await generateTradeSessionMessage('trade-1', ask, ALICE, BOB, ETH / 2n, clearNode, sessions, {
+      market: cents,
+    });
+
+    // 0.5 ETH at 3000 = 1500.00 in a 2-decimal quote token
+    const quoteLeg = appSessionData.allocations.find((allocation: { asset: string }) => allocation.asset === TOKENS.USDC.address);
+    expect(quoteLeg.amount).toBe('150000');
+    expect(sessions.getPending('trade-1')!.tradeValue).toBe(150000n);
+  });
+
+  it('carries the trade value into the active session fee history', async () => {
+    const sessions = new InMemoryTradeSessionStore();
+    const ask = makeOrder({ id: 'ask', maker: ALICE, side: 'sell' });
+    await generateTradeSessionMessage('trade-2', ask, ALICE, BOB, ETH, clearNode, sessions, { market: cents });
+
+    const active = toActiveTradeSession(sessions.getPending('trade-2')!, '0xabc');
+
+    expect(active.feeHistory[0].tradeValue).toBe('300000');
+  });
+
+  it('takes the nonce, timestamps and deadline from the clock it is given', async () => {
+    const sessions = new InMemoryTradeSessionStore();
+    const ask = makeOrder({ id: 'ask', maker: ALICE, side: 'sell' });
+    const now = () => 1_700_000_000_000;
+    await generateTradeSessionMessage('trade-3', ask, ALICE, BOB, ETH, clearNode, sessions, {
+      market: cents,
+      signingTimeoutMs: 30_000,
+      now,
+    });
+
+    const pending = sessions.getPending('trade-3')!;
+
+    expect(pending.nonce).toBe(now());
+    expect(pending.appDefinition.nonce).toBe(now());
+    expect(pending.createdAt).toBe(now());
+    expect(pending.signingDeadline).toBe(now() + 30_000);
+    expect(JSON.parse(pending.appSessionData.session_data).createdAt).toBe(new Date(now()).toISOString());
+  });
+});
@@ -19,11 +19,29 @@
 import { createAppSessionMessage, type RPCProtocolVersion } from '@erc7824/nitrolite';
 import { ethers } from 'ethers';
 import { logger } from './utils/logger';
-import { getPendingSession, setPendingSession, type PendingAppSession } from './session-storage';
+import type { PendingAppSession, TradeSessionStore } from './session-storage';
 import type { Address } from './types';
 import type { OrderRecord } from '@shared/types/order';
+import type { MarketConfig } from '@shared/types/market';
+import { computeNotional } from '@shared/math/notional';
 import type { NitroliteClient } from './client';
 
+/** Time participants get to sign a trade session, unless the caller sets one */
+export const DEFAULT_SIGNING_TIMEOUT_MS = 120_000;
+
+export interface TradeSessionOptions {
+  /** Market the order trades in, from the book's registry */
+  readonly market: MarketConfig;
+  /** How long maker and taker have to sign */
+  readonly signingTimeoutMs?: number;
+  /**
+   * Clock (unix ms) for the app-session nonce, timestamps and signing
+   * deadline. The matcher passes the reservation's book time, so the same
+   * journal yields the same session.
+   */
+  readonly now?: () => number;
+}
+
 /**
  * Generate app session message for trade execution (partial or full fill)
  *
@@ -33,6 +51,8 @@ import type { NitroliteClient } from './client';
  * @param takerAddress - Order taker address
  * @param fillQuantity - Amount being filled (can be partial)
  * @param nitroliteClient - Connected Nitrolite client instance
+ * @param sessions - Store the pending session is kept in
+ * @param options - Market the trade is priced in, signing timeout and clock
  * @returns Unsigned message and app definition
  */
 export async function generateTradeSessionMessage(
@@ -42,6 +62,8 @@ export async function generateTradeSessionMessage(
   takerAddress: Address,
   fillQuantity: bigint,
   nitroliteClient: NitroliteClient,
+  sessions: TradeSessionStore,
+  options: TradeSessionOptions,
 ): Promise<{
   appSessionData: any;
   appDefinition: any;
@@ -60,7 +82,7 @@ export async function generateTradeSessionMessage(
     logger.nitro(`Fill: ${fillQuantity.toString()} / ${order.size.toString()}`);
 
     // Check if already have pending session
-    const pending = getPendingSession(tradeId);
+    const pending = sessions.getPending(tradeId);
     if (pending) {
       logger.nitro(`Reusing existing session for trade ${tradeId}`);
       return {
@@ -81,7 +103,8 @@ export async function generateTradeSessionMessage(
 
     // Create app definition
     // Server has 100% voting power to ensure trades can settle
-    const nonce = Date.now();
+    const createdAt = (options.now ?? Date.now)();
+    const nonce = createdAt;
     const appDefinition = {
       protocol: 'NitroRPC/0.4' as RPCProtocolVersion,
       participants: [formattedMaker, formattedTaker, serverAddress],
@@ -96,7 +119,8 @@ export async function generateTradeSessionMessage(
     const fillPercentage = Number((fillQuantity * 100n) / order.size);
 
     // Calculate trade amounts
-    const tradeValue = (fillQuantity * order.price) / BigInt(1e18); // Assuming 18 decimals
+    // Quote amount in the quote token's own decimals
+    const tradeValue = computeNotional(options.market, fillQuantity, order.price);
 
     // Create initial session data with complete trade metadata
     const initialSessionData = {
@@ -129,8 +153,8 @@ export async function generateTradeSessionMessage(
       feeHistory: [
         {
           event: 'trade_session_created',
-          timestamp: Date.now(),
-          timestampISO: new Date().toISOString(),
+          timestamp: createdAt,
+          timestampISO: new Date(createdAt).toISOString(),
           serverAddress,
           feeCharged: '0',
           feeUsed: false,
@@ -142,8 +166,8 @@ export async function generateTradeSessionMessage(
       ],
 
       // Timing Data
-      startTime: Date.now(),
-      createdAt: new Date().toISOString(),
+      startTime: createdAt,
+      createdAt: new Date(createdAt).toISOString(),
 
       // Participant Information
       participants: {
@@ -302,10 +326,12 @@ export async function generateTradeSessionMessage(
       tradeId,
       orderId: order.id,
       fillQuantity,
-      createdAt: Date.now(),
+      tradeValue,
+      createdAt,
+      signingDeadline: createdAt + (options.signingTimeoutMs ?? DEFAULT_SIGNING_TIMEOUT_MS),
     };
 
-    setPendingSession(tradeId, pendingSession);
+    sessions.setPending(pendingSession);
 
     logger.info(`Pending trade session created - waiting for participant signatures`);
 
@@ -324,9 +350,10 @@ export async function generateTradeSessionMessage(
 /**
  * Get pending trade session message by trade ID
  *
+ * @param sessions - Trade session store
  * @param tradeId - Trade ID
  * @returns Pending session or undefined
  */
-export function getPendingTradeSession(tradeId: string): PendingAppSession | undefined {
-  return getPendingSession(tradeId);
+export function getPendingTradeSession(sessions: TradeSessionStore, tradeId: string): PendingAppSession | undefined {
+  return sessions.getPending(tradeId);
 }
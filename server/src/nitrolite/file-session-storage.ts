@@ -0,0 +1,85 @@
+/**
+ * ============================================================================
+ * FILE-BACKED TRADE SESSION STORE
+ * ============================================================================
+ *
+ * InMemoryTradeSessionStore that writes every change through to a JSON file
+ * and reloads it on construction, so pending and active trade sessions
+ * survive a restart
+ *
+ * FORMAT:
+ * - { version, pending: PendingAppSession[], active: ActiveTradeSession[] }
+ * - bigint values and Maps (the collected signatures) encoded by
+ *   lib/json-codec
+ *
+ * Writes go to a temporary file that is renamed over the store, so a crash
+ * mid-write leaves the previous state intact.
+ * ============================================================================
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { decodeJson, encodeJson } from '../lib/json-codec';
+import { logger } from './utils/logger';
+import {
+  InMemoryTradeSessionStore,
+  type ActiveTradeSession,
+  type PendingAppSession,
+  type TradeSessionStoreOptions,
+} from './session-storage';
+
+const STORE_VERSION = 1;
+
+interface PersistedSessions {
+  version: number;
+  pending: PendingAppSession[];
+  active: ActiveTradeSession[];
+}
+
+export class FileTradeSessionStore extends InMemoryTradeSessionStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string, options: TradeSessionStoreOptions = {}) {
+    super(options);
+    this.filePath = path.resolve(filePath);
+    this.load();
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  protected changed(): void {
+    const data: PersistedSessions = {
+      version: STORE_VERSION,
+      pending: this.getAllPending(),
+      active: this.getAllActive(),
+    };
+
+    const dir = path.dirname(this.filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, encodeJson(data, 2), 'utf-8');
+    renameSync(tmpPath, this.filePath);
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      logger.info(`Trade session store ${this.filePath} not found, starting empty`);
+      return;
+    }
+
+    const data = decodeJson<PersistedSessions>(readFileSync(this.filePath, 'utf-8'));
+    if (data.version !== STORE_VERSION) {
+      throw new Error(`Unsupported trade session store version ${data.version} in ${this.filePath}`);
+    }
+
+    data.pending.forEach(session => this.pending.set(session.tradeId, session));
+    data.active.forEach(session => this.active.set(session.tradeId, session));
+
+    logger.info(`Loaded ${this.pending.size} pending and ${this.active.size} active trade sessions from ${this.filePath}`);
+  }
+}
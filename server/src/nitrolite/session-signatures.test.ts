@@ -0,0 +1,96 @@
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ETH } from '../orderbook/test-fixtures';
+import { SessionSignatureError, SessionSignatureVerifier, sessionSigningPayload, type SessionSignatureRejection } from './session-signatures';
+import type { PendingAppSession } from './session-storage';
+import type { Address } from './types';
+
+const maker = new ethers.Wallet(`0x${'01'.repeat(32)}`);
+const taker = new ethers.Wallet(`0x${'02'.repeat(32)}`);
+const outsider = new ethers.Wallet(`0x${'03'.repeat(32)}`);
+
+function pendingSession(signatures: Map<Address, string> = new Map()): PendingAppSession {
+  return {
+    appSessionData: {},
+    appDefinition: {},
+    makerAddress: maker.address as Address,
+    takerAddress: taker.address as Address,
+    serverAddress: outsider.address as Address,
+    requestToSign: [1, 'create_app_session', [{ nonce: 1n }], 0],
+    nonce: 1,
+    signatures,
+    serverSignature: '0xserver',
+    tradeId: 'trade-1',
+    orderId: 'order-1',
+    fillQuantity: ETH,
+    createdAt: 0,
+    signingDeadline: 10_000,
+  };
+}
+
+// Nitrolite message signers sign the payload hash without a prefix
+function rawSign(wallet: ethers.Wallet, session: PendingAppSession): string {
+  const digest = ethers.utils.keccak256(ethers.utils.toUtf8Bytes(sessionSigningPayload(session.requestToSign)));
+  return ethers.utils.joinSignature(wallet._signingKey().signDigest(digest));
+}
+
+function rejection(verify: () => unknown): SessionSignatureRejection | undefined {
+  try {
+    verify();
+  } catch (error) {
+    if (error instanceof SessionSignatureError) return error.code;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('SessionSignatureVerifier', () => {
+  let verifier: SessionSignatureVerifier;
+  let session: PendingAppSession;
+
+  beforeEach(() => {
+    verifier = new SessionSignatureVerifier();
+    session = pendingSession();
+  });
+
+  it('accepts a raw or personal_sign signature and returns the lowercased participant', async () => {
+    const personal = await taker.signMessage(sessionSigningPayload(session.requestToSign));
+
+    expect(verifier.verify(session, maker.address, rawSign(maker, session))).toBe(maker.address.toLowerCase());
+    expect(verifier.verify(session, taker.address.toUpperCase(), personal)).toBe(taker.address.toLowerCase());
+  });
+
+  it('accepts the session key registered for a participant', () => {
+    verifier.setSessionKey(maker.address, outsider.address);
+
+    expect(verifier.verify(session, maker.address, rawSign(outsider, session))).toBe(maker.address.toLowerCase());
+
+    verifier.setSessionKey(maker.address, null);
+    expect(rejection(() => verifier.verify(session, maker.address, rawSign(outsider, session)))).toBe('mismatch');
+  });
+
+  it('rejects a signer outside the trade', () => {
+    expect(rejection(() => verifier.verify(session, outsider.address, rawSign(outsider, session)))).toBe('not_participant');
+  });
+
+  it('rejects a second signature from the same participant', () => {
+    session = pendingSession(new Map([[maker.address.toLowerCase() as Address, '0xsig']]));
+
+    expect(rejection(() => verifier.verify(session, maker.address, rawSign(maker, session)))).toBe('duplicate');
+  });
+
+  it('rejects a signature that cannot be parsed', () => {
+    expect(rejection(() => verifier.verify(session, maker.address, '0x1234'))).toBe('malformed');
+  });
+
+  it('rejects a signature from another key or over another payload', () => {
+    const other = { ...session, requestToSign: [2, 'create_app_session', [], 0] };
+
+    expect(rejection(() => verifier.verify(session, maker.address, rawSign(taker, session)))).toBe('mismatch');
+    expect(rejection(() => verifier.verify(session, maker.address, rawSign(maker, other)))).toBe('mismatch');
+  });
+
+  it('refuses a session key that is not an address', () => {
+    expect(() => verifier.setSessionKey(maker.address, 'key')).toThrow('Invalid session key address: key');
+  });
+});
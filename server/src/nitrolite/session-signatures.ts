@@ -0,0 +1,123 @@
+/**
+ * ============================================================================
+ * TRADE SESSION SIGNATURE VERIFICATION
+ * ============================================================================
+ *
+ * Checks a participant's signature over a pending session's `requestToSign`
+ * before it is stored, so invalid signatures are refused here instead of
+ * by ClearNode
+ *
+ * ACCEPTED SCHEMES (payload = JSON of requestToSign, as Nitrolite signs it):
+ * - raw ECDSA over keccak256(payload): Nitrolite message signers / session keys
+ * - EIP-191 personal_sign of payload: browser wallets
+ *
+ * The signature must recover to the participant's wallet or to the session
+ * key registered for that wallet with setSessionKey().
+ *
+ * REJECTIONS (SessionSignatureError.code):
+ * - not_participant: signer is neither maker nor taker of the trade
+ * - duplicate:       participant already signed this session
+ * - malformed:       signature cannot be parsed
+ * - mismatch:        signature recovers to a different address
+ * ============================================================================
+ */
+
+import { ethers } from 'ethers';
+import type { PendingAppSession } from './session-storage';
+import type { Address } from './types';
+
+export type SessionSignatureRejection = 'not_participant' | 'duplicate' | 'malformed' | 'mismatch';
+
+export class SessionSignatureError extends Error {
+  constructor(
+    readonly code: SessionSignatureRejection,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SessionSignatureError';
+  }
+}
+
+/**
+ * The exact string Nitrolite signs for an RPC payload
+ */
+export function sessionSigningPayload(requestToSign: unknown): string {
+  return JSON.stringify(requestToSign, (_, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+/**
+ * Addresses a signature recovers to under each accepted scheme
+ */
+export function recoverSessionSigners(requestToSign: unknown, signature: string): string[] {
+  const payload = sessionSigningPayload(requestToSign);
+
+  try {
+    return [
+      ethers.utils.recoverAddress(ethers.utils.keccak256(ethers.utils.toUtf8Bytes(payload)), signature),
+      ethers.utils.verifyMessage(payload, signature),
+    ];
+  } catch (error) {
+    throw new SessionSignatureError(
+      'malformed',
+      `Malformed signature: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+export class SessionSignatureVerifier {
+  private sessionKeys = new Map<string, string>(); // Wallet → session key, both lowercased
+
+  /**
+   * Accept signatures from `sessionKey` on behalf of `wallet`; null removes it
+   */
+  setSessionKey(wallet: string, sessionKey: string | null): void {
+    if (sessionKey === null) {
+      this.sessionKeys.delete(wallet.toLowerCase());
+      return;
+    }
+    if (!ethers.utils.isAddress(sessionKey)) {
+      throw new Error(`Invalid session key address: ${sessionKey}`);
+    }
+    this.sessionKeys.set(wallet.toLowerCase(), sessionKey.toLowerCase());
+  }
+
+  getSessionKey(wallet: string): string | undefined {
+    return this.sessionKeys.get(wallet.toLowerCase());
+  }
+
+  /**
+   * Throw a SessionSignatureError unless `signature` is the first valid
+   * signature of `signerAddress` for the session. Returns the participant
+   * (lowercased) to store the signature under.
+   */
+  verify(session: PendingAppSession, signerAddress: string, signature: string): Address {
+    const participant = [session.makerAddress, session.takerAddress]
+      .map(address => address.toLowerCase() as Address)
+      .find(address => address === signerAddress.toLowerCase());
+
+    if (!participant) {
+      throw new SessionSignatureError(
+        'not_participant',
+        `${signerAddress} is not a participant of trade ${session.tradeId}`
+      );
+    }
+    if (session.signatures.has(participant)) {
+      throw new SessionSignatureError(
+        'duplicate',
+        `${signerAddress} already signed trade ${session.tradeId}`
+      );
+    }
+
+    const expected = [participant, this.getSessionKey(participant)].filter(Boolean);
+    const recovered = recoverSessionSigners(session.requestToSign, signature);
+
+    if (!recovered.some(address => expected.includes(address.toLowerCase()))) {
+      throw new SessionSignatureError(
+        'mismatch',
+        `Signature recovers to ${recovered.join(' / ')}, expected ${expected.join(' or ')}`
+      );
+    }
+
+    return participant;
+  }
+}
@@ -3,15 +3,20 @@
  * SESSION STORAGE FOR P2P TRADES
  * ============================================================================
  *
- * Simple in-memory storage for trade sessions and pending signatures.
- * In production, this should use Redis or a database.
+ * One store for every trade session: pending sessions awaiting signatures
+ * and active sessions with their settlement steps and fee history.
+ * OrderMatcher, sign-sessions and the WebSocket handlers share one instance.
  *
- * STORAGE:
- * - activeTradeSessions: Active trade sessions by trade ID
- * - pendingTradeSessions: Pending signature collection by trade ID
+ * IMPLEMENTATIONS:
+ * - InMemoryTradeSessionStore: process memory only
+ * - FileTradeSessionStore (file-session-storage.ts): same, written through to
+ *   a JSON file and reloaded on start
  *
- * NOTE: This module handles both pending (awaiting signatures) and active
- * (fully signed and executing) trade sessions.
+ * Pending sessions carry a signing deadline (see SigningDeadlineSweeper).
+ * The store's clock (`now`, milliseconds like Date.now) decides which are
+ * expired when no time is given; pass the sweeper's clock so both agree.
+ * Sessions returned by the store must not be mutated directly; use
+ * addSignature / addSettlementStep / addFeeHistory so changes are persisted.
  * ============================================================================
  */
 
@@ -36,7 +41,9 @@ export interface PendingAppSession {
   readonly tradeId: string;
   readonly orderId: string;
   readonly fillQuantity: bigint;
+  readonly tradeValue?: bigint; // Quote amount; missing on sessions stored before it was recorded
   readonly createdAt: number;
+  readonly signingDeadline: number; // Unix ms; dropped if not fully signed by then
 }
 
 export interface ActiveTradeSession {
@@ -77,183 +84,188 @@ export interface FeeHistoryEntry {
 }
 
 // ============================================================================
-// STORAGE MAPS
+// STORE INTERFACE
 // ============================================================================
 
-// Active trade sessions by trade ID
-const activeTradeSessions = new Map<string, ActiveTradeSession>();
+export interface TradeSessionStats {
+  activeSessions: number;
+  pendingSessions: number;
+  totalSessions: number;
+}
+
+export interface TradeSessionStore {
+  // Pending sessions (awaiting signatures)
+  getPending(tradeId: string): PendingAppSession | undefined;
+  setPending(session: PendingAppSession): void;
+  removePending(tradeId: string): boolean;
+  getAllPending(): PendingAppSession[];
+  /** Pending sessions whose signing deadline is at or before `nowMs` (default: the store's clock) */
+  getExpiredPending(nowMs?: number): PendingAppSession[];
+  /** Store a participant's signature; throws if the session is not pending */
+  addSignature(tradeId: string, participant: Address, signature: string): PendingAppSession;
 
-// Pending signature collection by trade ID
-const pendingTradeSessions = new Map<string, PendingAppSession>();
+  // Active sessions (created on ClearNode)
+  getActive(tradeId: string): ActiveTradeSession | undefined;
+  setActive(session: ActiveTradeSession): void;
+  removeActive(tradeId: string): boolean;
+  getAllActive(): ActiveTradeSession[];
+  findByAppSessionId(appSessionId: string): ActiveTradeSession | undefined;
+  /** Append a settlement step; undefined if the session is not active */
+  addSettlementStep(tradeId: string, step: SettlementStep): ActiveTradeSession | undefined;
+  /** Append a fee history entry; undefined if the session is not active */
+  addFeeHistory(tradeId: string, entry: FeeHistoryEntry): ActiveTradeSession | undefined;
+
+  getStats(): TradeSessionStats;
+  /** Drop everything (for testing/reset) */
+  clear(): void;
+}
 
 // ============================================================================
-// ACTIVE TRADE SESSIONS
+// IN-MEMORY STORE
 // ============================================================================
 
-/**
- * Get active trade session by trade ID
- */
-export function getActiveSession(tradeId: string): ActiveTradeSession | undefined {
-  const session = activeTradeSessions.get(tradeId);
-  if (!session) {
-    logger.debug(`getActiveSession: No session for trade ${tradeId} (total active: ${activeTradeSessions.size})`);
-  }
-  return session;
+export interface TradeSessionStoreOptions {
+  readonly now?: () => number; // Milliseconds like Date.now
 }
 
-/**
- * Check if active session exists
- */
-export function hasActiveSession(tradeId: string): boolean {
-  return activeTradeSessions.has(tradeId);
-}
+export class InMemoryTradeSessionStore implements TradeSessionStore {
+  protected pending = new Map<string, PendingAppSession>(); // By trade id
+  protected active = new Map<string, ActiveTradeSession>(); // By trade id
+  private readonly now: () => number;
 
-/**
- * Store active trade session
- */
-export function setActiveSession(tradeId: string, sessionData: ActiveTradeSession): void {
-  activeTradeSessions.set(tradeId, sessionData);
-  logger.nitro(`✓ Active trade session stored for ${tradeId}`);
-  logger.data('Session stored', {
-    tradeId,
-    appSessionId: sessionData.appSessionId,
-    orderId: sessionData.orderId,
-    maker: sessionData.makerAddress,
-    taker: sessionData.takerAddress,
-    fillQuantity: sessionData.fillQuantity,
-    totalActiveSessions: activeTradeSessions.size,
-  });
-}
+  constructor(options: TradeSessionStoreOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
 
-/**
- * Delete active trade session
- */
-export function deleteActiveSession(tradeId: string): void {
-  const had = activeTradeSessions.has(tradeId);
-  activeTradeSessions.delete(tradeId);
-  if (had) {
-    logger.nitro(`Trade session deleted for ${tradeId} (remaining: ${activeTradeSessions.size})`);
+  getPending(tradeId: string): PendingAppSession | undefined {
+    return this.pending.get(tradeId);
   }
-}
 
-/**
- * Get all active trade sessions
- */
-export function getAllActiveSessions(): Array<[string, ActiveTradeSession]> {
-  return Array.from(activeTradeSessions.entries());
-}
+  setPending(session: PendingAppSession): void {
+    this.pending.set(session.tradeId, session);
+    this.changed();
+    logger.nitro(`✓ Pending trade session stored for ${session.tradeId}`);
+    logger.data('Pending session', {
+      tradeId: session.tradeId,
+      orderId: session.orderId,
+      maker: session.makerAddress,
+      taker: session.takerAddress,
+      fillQuantity: session.fillQuantity.toString(),
+      signaturesCollected: session.signatures.size,
+      totalPending: this.pending.size,
+    });
+  }
 
-/**
- * Clear all active sessions (for testing/reset)
- */
-export function clearAllActiveSessions(): void {
-  activeTradeSessions.clear();
-  logger.warn('All active trade sessions cleared');
-}
+  removePending(tradeId: string): boolean {
+    const deleted = this.pending.delete(tradeId);
+    if (deleted) {
+      this.changed();
+      logger.nitro(`Pending session removed for ${tradeId} (remaining: ${this.pending.size})`);
+    }
+    return deleted;
+  }
 
-// ============================================================================
-// PENDING TRADE SESSIONS (AWAITING SIGNATURES)
-// ============================================================================
+  getAllPending(): PendingAppSession[] {
+    return Array.from(this.pending.values());
+  }
 
-/**
- * Get pending trade session by trade ID
- */
-export function getPendingSession(tradeId: string): PendingAppSession | undefined {
-  return pendingTradeSessions.get(tradeId);
-}
+  getExpiredPending(nowMs: number = this.now()): PendingAppSession[] {
+    return this.getAllPending().filter(session => session.signingDeadline <= nowMs);
+  }
 
-/**
- * Store pending trade session
- */
-export function setPendingSession(tradeId: string, session: PendingAppSession): void {
-  pendingTradeSessions.set(tradeId, session);
-  logger.nitro(`✓ Pending trade session stored for ${tradeId}`);
-  logger.data('Pending session', {
-    tradeId,
-    orderId: session.orderId,
-    maker: session.makerAddress,
-    taker: session.takerAddress,
-    fillQuantity: session.fillQuantity.toString(),
-    signaturesCollected: session.signatures.size,
-    totalPending: pendingTradeSessions.size,
-  });
-}
+  addSignature(tradeId: string, participant: Address, signature: string): PendingAppSession {
+    const session = this.pending.get(tradeId);
+    if (!session) {
+      throw new Error(`No pending session found for trade ${tradeId}`);
+    }
 
-/**
- * Remove pending trade session
- */
-export function removePendingSession(tradeId: string): boolean {
-  const had = pendingTradeSessions.has(tradeId);
-  const deleted = pendingTradeSessions.delete(tradeId);
-  if (had) {
-    logger.nitro(`Pending session removed for ${tradeId} (remaining: ${pendingTradeSessions.size})`);
+    session.signatures.set(participant, signature);
+    this.changed();
+    return session;
   }
-  return deleted;
-}
 
-/**
- * Check if pending session exists
- */
-export function hasPendingSession(tradeId: string): boolean {
-  return pendingTradeSessions.has(tradeId);
-}
+  getActive(tradeId: string): ActiveTradeSession | undefined {
+    const session = this.active.get(tradeId);
+    if (!session) {
+      logger.debug(`getActive: No session for trade ${tradeId} (total active: ${this.active.size})`);
+    }
+    return session;
+  }
 
-/**
- * Get all pending trade sessions
- */
-export function getAllPendingSessions(): Array<[string, PendingAppSession]> {
-  return Array.from(pendingTradeSessions.entries());
-}
+  setActive(session: ActiveTradeSession): void {
+    this.active.set(session.tradeId, session);
+    this.changed();
+    logger.nitro(`✓ Active trade session stored for ${session.tradeId}`);
+    logger.data('Session stored', {
+      tradeId: session.tradeId,
+      appSessionId: session.appSessionId,
+      orderId: session.orderId,
+      maker: session.makerAddress,
+      taker: session.takerAddress,
+      fillQuantity: session.fillQuantity,
+      totalActiveSessions: this.active.size,
+    });
+  }
 
-/**
- * Clear all pending sessions (for testing/reset)
- */
-export function clearAllPendingSessions(): void {
-  pendingTradeSessions.clear();
-  logger.warn('All pending trade sessions cleared');
-}
+  removeActive(tradeId: string): boolean {
+    const deleted = this.active.delete(tradeId);
+    if (deleted) {
+      this.changed();
+      logger.nitro(`Trade session deleted for ${tradeId} (remaining: ${this.active.size})`);
+    }
+    return deleted;
+  }
 
-// ============================================================================
-// UTILITY FUNCTIONS
-// ============================================================================
+  getAllActive(): ActiveTradeSession[] {
+    return Array.from(this.active.values());
+  }
 
-/**
- * Get session statistics
- */
-export function getSessionStats(): {
-  activeSessions: number;
-  pendingSessions: number;
-  totalSessions: number;
-} {
-  return {
-    activeSessions: activeTradeSessions.size,
-    pendingSessions: pendingTradeSessions.size,
-    totalSessions: activeTradeSessions.size + pendingTradeSessions.size,
-  };
-}
+  findByAppSessionId(appSessionId: string): ActiveTradeSession | undefined {
+    return this.getAllActive().find(session => session.appSessionId.toLowerCase() === appSessionId.toLowerCase());
+  }
 
-/**
- * Find session by app session ID (searches both pending and active)
- */
-export function findSessionByAppSessionId(appSessionId: string): {
-  type: 'active' | 'pending' | null;
-  tradeId: string | null;
-  session: ActiveTradeSession | PendingAppSession | null;
-} {
-  // Search active sessions
-  for (const [tradeId, session] of activeTradeSessions.entries()) {
-    if (session.appSessionId === appSessionId) {
-      return { type: 'active', tradeId, session };
+  addSettlementStep(tradeId: string, step: SettlementStep): ActiveTradeSession | undefined {
+    const session = this.active.get(tradeId);
+    if (!session) {
+      logger.warn(`No active session for trade ${tradeId} to track settlement`);
+      return undefined;
     }
+
+    session.settlementSteps.push(step);
+    this.changed();
+    logger.debug(`Settlement step #${session.settlementSteps.length} recorded: ${step.step} (${step.status})`);
+    return session;
   }
 
-  // Search pending sessions (check if appSessionId exists in session data)
-  for (const [tradeId, session] of pendingTradeSessions.entries()) {
-    // Pending sessions don't have appSessionId yet, so this will typically return null
-    // But keeping for future extensibility
-    return { type: null, tradeId: null, session: null };
+  addFeeHistory(tradeId: string, entry: FeeHistoryEntry): ActiveTradeSession | undefined {
+    const session = this.active.get(tradeId);
+    if (!session) {
+      logger.warn(`No active session for trade ${tradeId} to record fee event ${entry.event}`);
+      return undefined;
+    }
+
+    session.feeHistory.push(entry);
+    this.changed();
+    return session;
   }
 
-  return { type: null, tradeId: null, session: null };
-}
+  getStats(): TradeSessionStats {
+    return {
+      activeSessions: this.active.size,
+      pendingSessions: this.pending.size,
+      totalSessions: this.active.size + this.pending.size,
+    };
+  }
+
+  clear(): void {
+    this.pending.clear();
+    this.active.clear();
+    this.changed();
+    logger.warn('All trade sessions cleared');
+  }
 
+  /**
+   * Called after every mutation; persistent stores write through here
+   */
+  protected changed(): void {}
+}
@@ -15,62 +15,39 @@
  * - addTradeSessionSignature() - Store participant signature
  * - createTradeSessionWithSignatures() - Submit with all signatures
  * - addSettlementStep() - Track settlement progress
+ *
+ * Sessions live in the TradeSessionStore passed to each function.
  * ============================================================================
  */
 
-import { RPCMethod } from '@erc7824/nitrolite';
+import { RPCMethod, type RPCData } from '@erc7824/nitrolite';
 import { ethers } from 'ethers';
 import { logger } from './utils/logger';
 import type { NitroliteClient } from './client';
-import { 
-  getPendingSession, 
-  removePendingSession, 
-  setActiveSession as storeActiveSession,
-  type PendingAppSession,
-  type ActiveTradeSession,
-  type SettlementStep,
-  type FeeHistoryEntry
+import type {
+  PendingAppSession,
+  ActiveTradeSession,
+  SettlementStep,
+  TradeSessionStore,
 } from './session-storage';
-import type { Address } from './types';
-
-// In-memory storage for active sessions (should be Redis in production)
-// Note: This local Map is used temporarily, but will be migrated to use
-// the centralized storage in session-storage.ts
-const activeSessions = new Map<string, ActiveTradeSession>();
-
-/**
- * Get active trade session by trade ID
- */
-export function getActiveSession(tradeId: string): ActiveTradeSession | undefined {
-  return activeSessions.get(tradeId);
-}
-
-/**
- * Set active trade session
- */
-export function setActiveSession(tradeId: string, session: ActiveTradeSession): void {
-  activeSessions.set(tradeId, session);
-  // Also store in centralized storage
-  storeActiveSession(tradeId, session);
-}
-
-/**
- * Remove active trade session
- */
-export function deleteActiveSession(tradeId: string): boolean {
-  return activeSessions.delete(tradeId);
-}
+import type { Address, Hex } from './types';
 
 /**
  * Add participant signature to pending trade session
  *
+ * @param sessions - Trade session store
  * @param tradeId - Trade ID
  * @param participantEOA - Participant's Ethereum address
  * @param signature - Participant's signature
  * @returns True if ALL signatures are now collected (2/2)
  */
-export function addTradeSessionSignature(tradeId: string, participantEOA: Address, signature: string): boolean {
-  const pending = getPendingSession(tradeId);
+export function addTradeSessionSignature(
+  sessions: TradeSessionStore,
+  tradeId: string,
+  participantEOA: Address,
+  signature: string,
+): boolean {
+  const pending = sessions.getPending(tradeId);
 
   if (!pending) {
     logger.error(`No pending trade session found for ${tradeId}`);
@@ -97,7 +74,7 @@ export function addTradeSessionSignature(tradeId: string, participantEOA: Addres
   }
 
   // Store signature
-  pending.signatures.set(formattedAddress, signature);
+  sessions.addSignature(tradeId, formattedAddress, signature);
 
   logger.nitro(`✓ Signature added for trade ${tradeId} from ${formattedAddress}`);
   logger.data('Signature preview', `${signature.substring(0, 20)}...${signature.substring(signature.length - 20)}`);
@@ -111,15 +88,17 @@ export function addTradeSessionSignature(tradeId: string, participantEOA: Addres
 /**
  * Create trade session with all collected signatures
  *
+ * @param sessions - Trade session store
  * @param tradeId - Trade ID
  * @param nitroliteClient - Connected Nitrolite client instance
  * @returns App session ID
  */
 export async function createTradeSessionWithSignatures(
+  sessions: TradeSessionStore,
   tradeId: string,
   nitroliteClient: NitroliteClient,
 ): Promise<string> {
-  const pending = getPendingSession(tradeId);
+  const pending = sessions.getPending(tradeId);
 
   if (!pending) {
     throw new Error(`No pending trade session for ${tradeId}`);
@@ -179,67 +158,17 @@ export async function createTradeSessionWithSignatures(
     logger.data('Request array', pending.requestToSign);
     logger.nitro('▶ Sending: create_app_session');
 
-    // Access the WebSocket directly from the client (we know it exists when connected)
-    const socket = (nitroliteClient as any).socket;
-
-    if (!socket) {
-      logger.error('Nitrolite client has no WebSocket instance');
-      throw new Error('Nitrolite client WebSocket not initialized');
-    }
-
-    const wsStates = ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'];
-    const currentState = wsStates[socket.readyState] || `UNKNOWN(${socket.readyState})`;
-
-    if (socket.readyState !== 1) {
-      logger.error(`WebSocket not ready. Current state: ${currentState}`);
-      throw new Error(`WebSocket not connected (state: ${currentState})`);
-    }
-
-    logger.nitro(`WebSocket connected and ready (state: ${currentState})`);
-
-    // Send directly to WebSocket (multi-signature requests need direct send)
-    const requestString = JSON.stringify(completeRequest);
-    logger.data('Sending JSON', requestString);
-
-    const response = await new Promise<any>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Timeout waiting for trade session creation'));
-      }, 30000);
-
-      const handler = (data: any) => {
-        try {
-          const msg = typeof data === 'string' ? data : data.toString();
-          const parsed = JSON.parse(msg);
+    // Multi-signature request: keep the signed ID and timestamp
+    const [requestId, , params, timestamp] = pending.requestToSign as RPCData;
+    const response = await nitroliteClient.request<{ app_session_id?: Hex; appSessionId?: Hex }>(
+      RPCMethod.CreateAppSession,
+      params,
+      completeRequest.sig as Hex[],
+      { requestId, timestamp },
+    );
 
-          // Check if this is a response (has "res" array)
-          if (parsed.res && Array.isArray(parsed.res)) {
-            const [reqId, method, params] = parsed.res;
-
-            // Match by method name
-            if (method === 'create_app_session') {
-              clearTimeout(timeout);
-              socket.removeListener('message', handler);
-              logger.nitro('◀ Received: create_app_session response');
-              logger.data('Response', params);
-              resolve(params);
-            }
-          }
-          // Check for error
-          else if (parsed.err && Array.isArray(parsed.err)) {
-            const [reqId, errorCode, errorMsg] = parsed.err;
-            clearTimeout(timeout);
-            socket.removeListener('message', handler);
-            logger.error('◀ Received error:', errorMsg);
-            reject(new Error(`Create trade session failed: ${errorMsg}`));
-          }
-        } catch (err) {
-          // Ignore parsing errors for other messages
-        }
-      };
-
-      socket.on('message', handler);
-      socket.send(requestString);
-    });
+    logger.nitro('◀ Received: create_app_session response');
+    logger.data('Response', response);
 
     // Extract app session ID
     const appSessionId = response.app_session_id || response.appSessionId;
@@ -252,52 +181,10 @@ export async function createTradeSessionWithSignatures(
 
     logger.nitro(`✓ Trade session created with ID: ${appSessionId}`);
 
-    // Calculate fee information
-    const fillQuantity = pending.fillQuantity.toString();
-    const serverFee = '0'; // Server fee (currently 0)
-
-    // Store active session with settlement tracking and fee history
-    const activeSession: ActiveTradeSession = {
-      appSessionId,
-      tradeId: pending.tradeId,
-      orderId: pending.orderId,
-      makerAddress: pending.makerAddress,
-      takerAddress: pending.takerAddress,
-      serverAddress: pending.serverAddress,
-      fillQuantity,
-      createdAt: Date.now(),
-      settlementSteps: [],
-      feeHistory: [
-        {
-          event: 'session_created',
-          timestamp: pending.createdAt,
-          timestampISO: new Date(pending.createdAt).toISOString(),
-          serverAddress: pending.serverAddress,
-          feeCharged: serverFee,
-          feeUsed: false,
-          makerAddress: pending.makerAddress,
-          takerAddress: pending.takerAddress,
-          fillQuantity,
-          tradeValue: '0', // TODO: Calculate from order price
-        },
-        {
-          event: 'trade_started',
-          timestamp: Date.now(),
-          timestampISO: new Date().toISOString(),
-          serverAddress: pending.serverAddress,
-          feeCharged: serverFee,
-          feeUsed: true, // Fee is now consumed as trade is active
-          appSessionId,
-          allSignaturesCollected: true,
-        },
-      ],
-    };
-
-    activeSessions.set(tradeId, activeSession);
-    storeActiveSession(tradeId, activeSession);
+    sessions.setActive(toActiveTradeSession(pending, appSessionId));
 
     // Clean up pending
-    removePendingSession(tradeId);
+    sessions.removePending(tradeId);
 
     return appSessionId;
   } catch (error) {
@@ -306,9 +193,60 @@ export async function createTradeSessionWithSignatures(
   }
 }
 
+/**
+ * Active session record for a pending session ClearNode has created
+ *
+ * @param pending - Fully signed pending session
+ * @param appSessionId - App session ID returned by ClearNode
+ * @returns Active session with its fee history started
+ */
+export function toActiveTradeSession(pending: PendingAppSession, appSessionId: Hex): ActiveTradeSession {
+  // Calculate fee information
+  const fillQuantity = pending.fillQuantity.toString();
+  const serverFee = '0'; // Server fee (currently 0)
+
+  // Settlement tracking and fee history
+  return {
+    appSessionId,
+    tradeId: pending.tradeId,
+    orderId: pending.orderId,
+    makerAddress: pending.makerAddress,
+    takerAddress: pending.takerAddress,
+    serverAddress: pending.serverAddress,
+    fillQuantity,
+    createdAt: Date.now(),
+    settlementSteps: [],
+    feeHistory: [
+      {
+        event: 'session_created',
+        timestamp: pending.createdAt,
+        timestampISO: new Date(pending.createdAt).toISOString(),
+        serverAddress: pending.serverAddress,
+        feeCharged: serverFee,
+        feeUsed: false,
+        makerAddress: pending.makerAddress,
+        takerAddress: pending.takerAddress,
+        fillQuantity,
+        tradeValue: (pending.tradeValue ?? 0n).toString(),
+      },
+      {
+        event: 'trade_started',
+        timestamp: Date.now(),
+        timestampISO: new Date().toISOString(),
+        serverAddress: pending.serverAddress,
+        feeCharged: serverFee,
+        feeUsed: true, // Fee is now consumed as trade is active
+        appSessionId,
+        allSignaturesCollected: true,
+      },
+    ],
+  };
+}
+
 /**
  * Add a settlement step to the trade session history
  *
+ * @param sessions - Trade session store
  * @param tradeId - Trade ID
  * @param step - Settlement step description
  * @param participant - Optional participant address
@@ -316,19 +254,13 @@ export async function createTradeSessionWithSignatures(
  * @param details - Optional additional details
  */
 export function addSettlementStep(
+  sessions: TradeSessionStore,
   tradeId: string,
   step: string,
   participant?: Address,
   status: 'pending' | 'completed' | 'failed' = 'completed',
   details?: Record<string, any>,
 ): void {
-  const session = getActiveSession(tradeId);
-
-  if (!session) {
-    logger.warn(`No active session for trade ${tradeId} to track settlement`);
-    return;
-  }
-
   const settlementStep: SettlementStep = {
     step,
     timestamp: Date.now(),
@@ -338,21 +270,5 @@ export function addSettlementStep(
     details,
   };
 
-  session.settlementSteps.push(settlementStep);
-
-  logger.debug(`Settlement step #${session.settlementSteps.length} recorded: ${step} (${status})`);
-}
-
-/**
- * Get all active trade sessions
- */
-export function getAllActiveSessions(): ActiveTradeSession[] {
-  return Array.from(activeSessions.values());
-}
-
-/**
- * Clear all active sessions (for testing/reset)
- */
-export function clearAllActiveSessions(): void {
-  activeSessions.clear();
+  sessions.addSettlementStep(tradeId, settlementStep);
 }
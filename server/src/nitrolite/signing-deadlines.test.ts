@@ -0,0 +1,72 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { marketRegistry, TOKENS } from '@shared/markets/registry';
+import { ALICE, BOB, ETH, clearNode, makeOrder } from '../orderbook/test-fixtures';
+import { generateTradeSessionMessage } from './create-session';
+import { InMemoryTradeSessionStore } from './session-storage';
+import { SigningDeadlineSweeper, type ExpiredTradeSession } from './signing-deadlines';
+import type { Address } from './types';
+import { setLoggerSilenced } from './utils/logger';
+
+const market = marketRegistry.require(TOKENS.ETH.address, TOKENS.USDC.address);
+const SIGNING_TIMEOUT_MS = 10_000;
+
+describe('SigningDeadlineSweeper', () => {
+  let clock: number;
+  const now = () => clock;
+  let sessions: InMemoryTradeSessionStore;
+  let sweeper: SigningDeadlineSweeper;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    clock = 1_000_000;
+    sessions = new InMemoryTradeSessionStore({ now });
+    sweeper = new SigningDeadlineSweeper(sessions, { now });
+  });
+
+  async function openSession(tradeId: string): Promise<void> {
+    const ask = makeOrder({ id: `${tradeId}-ask`, maker: ALICE, side: 'sell' });
+    await generateTradeSessionMessage(tradeId, ask, ALICE, BOB, ETH, clearNode, sessions, {
+      market,
+      signingTimeoutMs: SIGNING_TIMEOUT_MS,
+      now,
+    });
+  }
+
+  it('keeps sessions until their deadline', async () => {
+    await openSession('trade-1');
+
+    clock += SIGNING_TIMEOUT_MS - 1;
+
+    expect(sweeper.sweep()).toEqual([]);
+    expect(sessions.getExpiredPending()).toEqual([]);
+    expect(sessions.getPending('trade-1')).toBeDefined();
+  });
+
+  it('drops a session at its deadline and strikes the missing signers', async () => {
+    await openSession('trade-1');
+    sessions.addSignature('trade-1', ALICE.toLowerCase() as Address, '0xsig');
+    const expired: ExpiredTradeSession[] = [];
+    sweeper.on('expired', (event: ExpiredTradeSession) => expired.push(event));
+
+    clock += SIGNING_TIMEOUT_MS;
+
+    expect(sessions.getExpiredPending().map(session => session.tradeId)).toEqual(['trade-1']);
+    expect(sweeper.sweep().map(event => event.session.tradeId)).toEqual(['trade-1']);
+    expect(expired.map(event => event.missingSigners.map(address => address.toLowerCase()))).toEqual([[BOB]]);
+    expect(sessions.getPending('trade-1')).toBeUndefined();
+    expect(sweeper.getStrikes(BOB)).toBe(1);
+    expect(sweeper.getStrikes(ALICE)).toBe(0);
+  });
+
+  it('leaves fully signed sessions to be submitted', async () => {
+    await openSession('trade-1');
+    sessions.addSignature('trade-1', ALICE.toLowerCase() as Address, '0xsig');
+    sessions.addSignature('trade-1', BOB.toLowerCase() as Address, '0xsig');
+
+    clock += SIGNING_TIMEOUT_MS;
+
+    expect(sweeper.sweep()).toEqual([]);
+    expect(sessions.getPending('trade-1')).toBeDefined();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * ============================================================================
+ * TRADE SESSION SIGNING DEADLINES
+ * ============================================================================
+ *
+ * Drops pending trade sessions that were not signed by both participants
+ * before their `signingDeadline` from the TradeSessionStore
+ *
+ * USAGE:
+ * - start() sweeps every `intervalMs`; stop() cancels the timer
+ * - sweep() runs one pass immediately and returns the expired sessions
+ * - 'expired' event: one per session, after it was removed from storage
+ *
+ * Every participant that had not signed gets a strike. Strikes are counted
+ * per address for the lifetime of the process.
+ *
+ * The clock is injectable (`now`, milliseconds like Date.now) so deadlines
+ * can be driven deterministically by calling sweep() with a fake clock.
+ * ============================================================================
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from './utils/logger';
+import type { PendingAppSession, TradeSessionStore } from './session-storage';
+import type { Address } from './types';
+
+export interface SigningDeadlineSweeperOptions {
+  readonly intervalMs?: number;
+  readonly now?: () => number;
+}
+
+/**
+ * Emitted as 'expired' for every session dropped at its deadline
+ */
+export interface ExpiredTradeSession {
+  readonly session: PendingAppSession;
+  readonly missingSigners: Address[]; // Participants that got a strike
+}
+
+const DEFAULT_INTERVAL_MS = 1000;
+
+export class SigningDeadlineSweeper extends EventEmitter {
+  private timer?: ReturnType<typeof setInterval>;
+  private readonly intervalMs: number;
+  private readonly now: () => number;
+  private strikes = new Map<string, number>(); // By lowercased address
+
+  constructor(
+    private sessions: TradeSessionStore,
+    options: SigningDeadlineSweeperOptions = {}
+  ) {
+    super();
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), this.intervalMs);
+    logger.info(`Signing deadline sweeper running every ${this.intervalMs}ms`);
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Number of trade sessions an address failed to sign in time
+   */
+  getStrikes(address: string): number {
+    return this.strikes.get(address.toLowerCase()) ?? 0;
+  }
+
+  /**
+   * Drop every pending session past its deadline at the current clock time
+   */
+  sweep(): ExpiredTradeSession[] {
+    const expired: ExpiredTradeSession[] = [];
+
+    for (const session of this.sessions.getExpiredPending(this.now())) {
+      const missingSigners = [session.makerAddress, session.takerAddress].filter(
+        address => !session.signatures.has(address.toLowerCase() as Address)
+      );
+
+      // Fully signed sessions are already on their way to ClearNode
+      if (missingSigners.length === 0 || !this.sessions.removePending(session.tradeId)) continue;
+
+      for (const address of missingSigners) {
+        const key = address.toLowerCase();
+        this.strikes.set(key, (this.strikes.get(key) ?? 0) + 1);
+      }
+
+      logger.warn(`Trade session ${session.tradeId} not signed in time (missing: ${missingSigners.join(', ')})`);
+
+      const event: ExpiredTradeSession = { session, missingSigners };
+      expired.push(event);
+      this.emit('expired', event);
+    }
+
+    return expired;
+  }
+}
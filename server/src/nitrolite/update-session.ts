@@ -17,11 +17,12 @@
  * ============================================================================
  */
 
-import { createSubmitAppStateMessage, RPCAppStateIntent, RPCProtocolVersion } from '@erc7824/nitrolite';
+import { RPCAppStateIntent, RPCMethod } from '@erc7824/nitrolite';
 import type { Hex } from 'viem';
 import { logger } from './utils/logger';
+import type { NitroliteClient } from './client';
 import type { Address } from './types';
-import type { ActiveTradeSession, SettlementStep } from './session-storage';
+import type { ActiveTradeSession, SettlementStep, TradeSessionStore } from './session-storage';
 
 /**
  * Trade state update data
@@ -43,7 +44,7 @@ export interface TradeStateUpdate {
  * @returns Promise<void>
  */
 export async function submitTradeState(
-  client: any, // NitroliteClient instance
+  client: NitroliteClient,
   session: ActiveTradeSession,
   stateUpdate: TradeStateUpdate = {}
 ): Promise<void> {
@@ -53,20 +54,6 @@ export async function submitTradeState(
   }
 
   try {
-    // Ensure WebSocket is connected
-    if (!client.socket) {
-      logger.error('Client has no WebSocket instance');
-      throw new Error('Client WebSocket not initialized');
-    }
-
-    const wsStates = ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'];
-    const currentState = wsStates[client.socket.readyState] || `UNKNOWN(${client.socket.readyState})`;
-
-    if (client.socket.readyState !== 1) {
-      logger.error(`Client WebSocket not ready. Current state: ${currentState}`);
-      throw new Error(`Client WebSocket not connected (state: ${currentState})`);
-    }
-
     // Keep current allocations (no fund redistribution during execution)
     // These will be recalculated on session close based on settlement outcome
     const allocations = [
@@ -162,52 +149,8 @@ export async function submitTradeState(
     logger.nitro(`▶ Sending: submit_app_state for trade ${session.tradeId}`);
     logger.data('State update:', stateData);
 
-    // Sign with session signer
-    const sign = (client as any).sessionSigner || (client as any).signMessage?.bind(client);
-    if (!sign) {
-      throw new Error('No signing method available on client');
-    }
-
-    const stateMessage = await createSubmitAppStateMessage<RPCProtocolVersion.NitroRPC_0_4>(sign, stateData);
-
-    // Send directly to WebSocket
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Timeout waiting for state submission'));
-      }, 30000);
-
-      const handler = (data: any) => {
-        try {
-          const msg = typeof data === 'string' ? data : data.toString();
-          const parsed = JSON.parse(msg);
-
-          // Check if this is a response
-          if (parsed.res && Array.isArray(parsed.res)) {
-            const [reqId, method, params] = parsed.res;
-
-            if (method === 'submit_app_state') {
-              clearTimeout(timeout);
-              client.socket.removeListener('message', handler);
-              logger.nitro('◀ Received: submit_app_state response');
-              resolve();
-            }
-          }
-          // Check for error
-          else if (parsed.err && Array.isArray(parsed.err)) {
-            const [reqId, errorCode, errorMsg] = parsed.err;
-            clearTimeout(timeout);
-            client.socket.removeListener('message', handler);
-            logger.error('◀ Received error:', errorMsg);
-            reject(new Error(`Submit app state failed: ${errorMsg}`));
-          }
-        } catch (err) {
-          // Ignore parsing errors for other messages
-        }
-      };
-
-      client.socket.on('message', handler);
-      client.socket.send(stateMessage);
-    });
+    // Signed with the client's session key, response matched by request ID
+    await client.request(RPCMethod.SubmitAppState, stateData);
 
     logger.nitro(`✓ Trade state submitted for trade ${session.tradeId}`);
 
@@ -221,6 +164,7 @@ export async function submitTradeState(
  * Update settlement progress and submit state update
  *
  * @param client - Nitrolite client instance
+ * @param sessions - Trade session store the step is recorded in
  * @param session - Active trade session
  * @param step - Settlement step name
  * @param status - Step status
@@ -229,7 +173,8 @@ export async function submitTradeState(
  * @returns Promise<void>
  */
 export async function updateSettlementProgress(
-  client: any,
+  client: NitroliteClient,
+  sessions: TradeSessionStore,
   session: ActiveTradeSession,
   step: string,
   status: 'pending' | 'completed' | 'failed',
@@ -246,7 +191,7 @@ export async function updateSettlementProgress(
   };
 
   // Add step to session's settlement steps
-  session.settlementSteps.push(newStep);
+  session = sessions.addSettlementStep(session.tradeId, newStep) ?? session;
 
   logger.nitro(`Settlement step ${step}: ${status}`, {
     tradeId: session.tradeId,
@@ -267,11 +212,13 @@ export async function updateSettlementProgress(
 /**
  * Record trade execution milestone
  *
+ * @param sessions - Trade session store the milestone is recorded in
  * @param session - Active trade session
  * @param milestone - Milestone name
  * @param details - Optional details
  */
 export function recordTradeMilestone(
+  sessions: TradeSessionStore,
   session: ActiveTradeSession,
   milestone: string,
   details?: Record<string, any>
@@ -284,7 +231,7 @@ export function recordTradeMilestone(
     details
   };
 
-  session.settlementSteps.push(step);
+  sessions.addSettlementStep(session.tradeId, step);
 
   logger.info(`Trade milestone: ${milestone}`, {
     tradeId: session.tradeId,
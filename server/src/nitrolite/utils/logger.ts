@@ -21,6 +21,15 @@ const LOG_LEVELS: Record<string, LogLevelConfig> = {
   data: { color: chalk.hex('#888888'), label: 'DATA' },
 };
 
+let silenced = false;
+
+/**
+ * Turn all logger output off or back on (e.g. for CLI tools printing JSON)
+ */
+export const setLoggerSilenced = (value: boolean): void => {
+  silenced = value;
+};
+
 const timestamp = (): string => {
   const now = new Date();
   const time = now.toTimeString().split(' ')[0];
@@ -32,17 +41,20 @@ const formatLabel = ({ color, label }: LogLevelConfig): string => {
 };
 
 const print = (level: keyof typeof LOG_LEVELS, message: string, args: unknown[], formatter?: ChalkFormatter): void => {
+  if (silenced) return;
   const prefix = formatLabel(LOG_LEVELS[level]);
   const body = formatter ? formatter(message) : message;
   console.log(timestamp(), prefix, body, ...args);
 };
 
 const printWarn = (message: string, args: unknown[]): void => {
+  if (silenced) return;
   const prefix = formatLabel(LOG_LEVELS.warn);
   console.warn(timestamp(), prefix, chalk.yellow(message), ...args);
 };
 
 const printError = (message: string, args: unknown[]): void => {
+  if (silenced) return;
   const prefix = formatLabel(LOG_LEVELS.error);
   console.error(timestamp(), prefix, chalk.red(message), ...args);
 };
@@ -59,6 +71,7 @@ export const logger = {
   info: (message: string, ...args: unknown[]) => print('info', message, args),
   debug: (message: string, ...args: unknown[]) => print('debug', message, args, chalk.dim),
   data: (label: string, data: unknown) => {
+    if (silenced) return;
     const formattedLabel = chalk.cyan.bold(`${label}:`);
     const prefix = formatLabel(LOG_LEVELS.data);
 
@@ -0,0 +1,105 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TOKENS } from '@shared/markets/registry';
+import { setLoggerSilenced } from '../nitrolite/utils/logger';
+import { DepthFeed, type DepthDelta, type DepthLevelMessage, type DepthSnapshot } from './DepthFeed';
+import { OrderBook } from './OrderBook';
+import { ALICE, BOB, ETH, PRICE, makeOrder } from './test-fixtures';
+
+const BASE = TOKENS.ETH.address;
+const QUOTE = TOKENS.USDC.address;
+
+// What a client holds: a snapshot with every in-sequence delta applied
+function applyDeltas(snapshot: DepthSnapshot, deltas: DepthDelta[]): DepthSnapshot {
+  const book = { ...snapshot, bids: [...snapshot.bids], asks: [...snapshot.asks] };
+  for (const delta of deltas) {
+    if (delta.sequence <= book.sequence) continue;
+    expect(delta.sequence).toBe(book.sequence + 1);
+    book.sequence = delta.sequence;
+
+    for (const { side, ...level } of delta.changes) {
+      const levels = side === 'buy' ? book.bids : book.asks;
+      const index = levels.findIndex(existing => existing.price === level.price);
+      if (index !== -1) levels.splice(index, 1);
+      if (level.quantity !== '0') levels.push(level);
+    }
+  }
+
+  const byPrice = (descending: boolean) => (a: DepthLevelMessage, b: DepthLevelMessage) =>
+    (BigInt(a.price) < BigInt(b.price) ? -1 : 1) * (descending ? -1 : 1);
+  book.bids.sort(byPrice(true));
+  book.asks.sort(byPrice(false));
+  return book;
+}
+
+describe('DepthFeed', () => {
+  let book: OrderBook;
+  let feed: DepthFeed;
+  let deltas: DepthDelta[];
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    book = new OrderBook();
+    feed = new DepthFeed(book);
+    deltas = [];
+    feed.on('delta', (delta: DepthDelta) => deltas.push(delta));
+  });
+
+  afterEach(() => feed.close());
+
+  it('starts every market at sequence 0', () => {
+    expect(feed.getSequence(BASE, QUOTE)).toBe(0);
+    expect(feed.snapshot(BASE, QUOTE)).toMatchObject({ sequence: 0, bids: [], asks: [] });
+  });
+
+  it('numbers deltas one apart and stamps the snapshot with the last one', () => {
+    book.createOrder(makeOrder({ id: 'ask-1', maker: ALICE, side: 'sell' }));
+    book.createOrder(makeOrder({ id: 'ask-2', maker: ALICE, side: 'sell' }));
+    book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', price: PRICE - ETH }));
+
+    expect(deltas.map(delta => delta.sequence)).toEqual([1, 2, 3]);
+    expect(deltas[1].changes).toEqual([{ side: 'sell', price: PRICE.toString(), quantity: (2n * ETH).toString(), orders: 2 }]);
+    expect(feed.snapshot(BASE, QUOTE)).toMatchObject({
+      sequence: 3,
+      asks: [{ price: PRICE.toString(), quantity: (2n * ETH).toString(), orders: 2 }],
+      bids: [{ price: (PRICE - ETH).toString(), quantity: ETH.toString(), orders: 1 }],
+    });
+  });
+
+  it('reports a removed level with quantity 0', () => {
+    book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+    book.cancelOrder('ask', ALICE);
+
+    expect(deltas.at(-1)!.changes).toEqual([{ side: 'sell', price: PRICE.toString(), quantity: '0', orders: 0 }]);
+    expect(feed.snapshot(BASE, QUOTE).asks).toEqual([]);
+  });
+
+  it('keeps a separate sequence per market', () => {
+    book.createOrder(makeOrder({ id: 'eth', maker: ALICE, side: 'sell' }));
+    book.createOrder(makeOrder({ id: 'weth', maker: ALICE, side: 'sell', baseToken: TOKENS.WETH.address }));
+
+    expect(feed.getSequence(BASE, QUOTE)).toBe(1);
+    expect(feed.getSequence(TOKENS.WETH.address, QUOTE)).toBe(1);
+  });
+
+  it('lets a client rebuild the book from a snapshot and the deltas after it', () => {
+    book.createOrder(makeOrder({ id: 'ask-1', maker: ALICE, side: 'sell' }));
+    book.createOrder(makeOrder({ id: 'bid-1', maker: BOB, side: 'buy', price: PRICE - ETH }));
+    const snapshot = feed.snapshot(BASE, QUOTE);
+
+    book.createOrder(makeOrder({ id: 'ask-2', maker: ALICE, side: 'sell', price: PRICE + ETH }));
+    book.amendOrder('bid-1', BOB, { size: ETH / 2n });
+    book.cancelOrder('ask-1', ALICE);
+    book.createOrder(makeOrder({ id: 'bid-2', maker: BOB, side: 'buy', price: PRICE - 2n * ETH }));
+
+    // Deltas from before the snapshot are dropped by sequence
+    expect(applyDeltas(snapshot, deltas)).toEqual(feed.snapshot(BASE, QUOTE));
+  });
+
+  it('stops publishing once closed', () => {
+    feed.close();
+    book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+
+    expect(deltas).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * ============================================================================
+ * L2 DEPTH FEED
+ * ============================================================================
+ *
+ * Turns OrderBook level changes into a sequenced market data feed
+ *
+ * PROTOCOL:
+ * - snapshot(): aggregated price levels for a market + current sequence
+ * - 'delta' event: one or more level changes, sequence incremented by one
+ * - A level with quantity "0" has been removed from the book
+ * - Clients apply deltas with sequence === last + 1; on a gap they
+ *   request a fresh snapshot and drop deltas at or below its sequence
+ * ============================================================================
+ */
+
+import { EventEmitter } from 'events';
+import type { OrderSide } from '@shared/types/order';
+import type { LevelChange, OrderBook } from './OrderBook';
+import { marketKey, type DepthLevel } from './MarketBook';
+
+export interface DepthLevelMessage {
+  price: string;
+  quantity: string;
+  orders: number;
+}
+
+export interface DepthChangeMessage extends DepthLevelMessage {
+  side: OrderSide;
+}
+
+export interface DepthSnapshot {
+  market: string;
+  baseToken: string;
+  quoteToken: string;
+  sequence: number;
+  bids: DepthLevelMessage[];
+  asks: DepthLevelMessage[];
+}
+
+export interface DepthDelta {
+  market: string;
+  baseToken: string;
+  quoteToken: string;
+  sequence: number;
+  changes: DepthChangeMessage[];
+}
+
+function toLevelMessage(level: DepthLevel): DepthLevelMessage {
+  return {
+    price: level.price.toString(),
+    quantity: level.quantity.toString(),
+    orders: level.orders,
+  };
+}
+
+export class DepthFeed extends EventEmitter {
+  private sequences = new Map<string, number>(); // Last sequence by market key
+  private readonly onLevel = (change: LevelChange) => this.publish(change);
+
+  constructor(private orderBook: OrderBook) {
+    super();
+    this.orderBook.on('level', this.onLevel);
+  }
+
+  /**
+   * Current sequence number for a market (0 before any change)
+   */
+  getSequence(baseToken: string, quoteToken: string): number {
+    return this.sequences.get(marketKey(baseToken, quoteToken)) ?? 0;
+  }
+
+  /**
+   * Build an aggregated depth snapshot for a market
+   */
+  snapshot(baseToken: string, quoteToken: string, maxLevels?: number): DepthSnapshot {
+    const depth = this.orderBook.getDepth(baseToken, quoteToken, maxLevels);
+
+    return {
+      market: marketKey(baseToken, quoteToken),
+      baseToken,
+      quoteToken,
+      sequence: this.getSequence(baseToken, quoteToken),
+      bids: depth.bids.map(toLevelMessage),
+      asks: depth.asks.map(toLevelMessage),
+    };
+  }
+
+  /**
+   * Stop listening to the order book
+   */
+  close(): void {
+    this.orderBook.off('level', this.onLevel);
+  }
+
+  private publish(change: LevelChange): void {
+    const market = marketKey(change.baseToken, change.quoteToken);
+    const sequence = (this.sequences.get(market) ?? 0) + 1;
+    this.sequences.set(market, sequence);
+
+    const delta: DepthDelta = {
+      market,
+      baseToken: change.baseToken,
+      quoteToken: change.quoteToken,
+      sequence,
+      changes: [
+        {
+          side: change.side,
+          ...toLevelMessage(change),
+        },
+      ],
+    };
+
+    this.emit('delta', delta);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * ============================================================================
+ * ORDER EXPIRY SWEEPER
+ * ============================================================================
+ *
+ * Expires resting orders once their `expiry` (unix seconds) has passed,
+ * and pending trigger orders when given the TriggerBook
+ *
+ * USAGE:
+ * - start() sweeps every `intervalMs`; stop() cancels the timer
+ * - sweep() runs one pass immediately and returns the expired book orders
+ * - 'expired' event: one per book order, after it left the book. Expired
+ *   trigger orders are reported by the TriggerBook's own 'expired' event.
+ *
+ * The clock is injectable (`now`, milliseconds like Date.now) so expiry can
+ * be driven deterministically by calling sweep() with a fake clock.
+ * ============================================================================
+ */
+
+import { EventEmitter } from 'events';
+import type { OrderRecord } from '@shared/types/order';
+import type { OrderBook } from './OrderBook';
+import type { TriggerBook } from './TriggerBook';
+import { logger } from '../nitrolite/utils/logger';
+
+export interface ExpirySweeperOptions {
+  readonly intervalMs?: number;
+  readonly now?: () => number;
+  readonly triggerBook?: TriggerBook; // Also expire its pending orders
+}
+
+const DEFAULT_INTERVAL_MS = 1000;
+
+export class ExpirySweeper extends EventEmitter {
+  private timer?: ReturnType<typeof setInterval>;
+  private readonly intervalMs: number;
+  private readonly now: () => number;
+  private readonly triggerBook?: TriggerBook;
+
+  constructor(
+    private orderBook: OrderBook,
+    options: ExpirySweeperOptions = {}
+  ) {
+    super();
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    this.now = options.now ?? Date.now;
+    this.triggerBook = options.triggerBook;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), this.intervalMs);
+    logger.info(`Order expiry sweeper running every ${this.intervalMs}ms`);
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Expire every active order due at the current clock time
+   */
+  sweep(): OrderRecord[] {
+    const now = this.now();
+    const expired: OrderRecord[] = [];
+
+    for (const entry of this.orderBook.getExpiredOrders(now)) {
+      try {
+        const order = this.orderBook.expireOrder(entry.order.id);
+        expired.push(order);
+        this.emit('expired', order);
+      } catch (error) {
+        logger.error(`Failed to expire order ${entry.order.id}`, error);
+      }
+    }
+
+    if (expired.length > 0) {
+      logger.info(`Expired ${expired.length} order(s)`);
+    }
+
+    this.triggerBook?.expireDue(now);
+
+    return expired;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * ============================================================================
+ * FILE-BACKED ORDER BOOK STORE
+ * ============================================================================
+ *
+ * OrderBookStore kept in a directory
+ *
+ * FILES:
+ * - journal.jsonl: one JournalRecord per line, appended as it happens
+ * - snapshot.json: latest OrderBookSnapshot
+ * - journal-<seq>.jsonl: records up to <seq>, moved out of journal.jsonl
+ *   when a snapshot covered them; together with journal.jsonl the full
+ *   history for the replay tool. Safe to delete once no longer needed.
+ *
+ * bigint values are encoded by lib/json-codec. The archive is written, then
+ * the snapshot goes to a temporary file renamed over the old one, and only
+ * then is the log cut, so a crash at any point leaves a snapshot and log
+ * that replay to the same state. A torn last line (crash mid-append) is
+ * dropped on read.
+ * ============================================================================
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { decodeJson, encodeJson } from '../lib/json-codec';
+import { logger } from '../nitrolite/utils/logger';
+import type { JournalRecord, OrderBookSnapshot, OrderBookStore } from './OrderBookStore';
+
+export class FileOrderBookStore implements OrderBookStore {
+  private readonly dir: string;
+  private readonly journalPath: string;
+  private readonly snapshotPath: string;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+    this.journalPath = path.join(this.dir, 'journal.jsonl');
+    this.snapshotPath = path.join(this.dir, 'snapshot.json');
+
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  get path(): string {
+    return this.dir;
+  }
+
+  /**
+   * Archived segments oldest first, then the live log: the full history
+   */
+  journalFiles(): string[] {
+    const archived = readdirSync(this.dir)
+      .filter(name => /^journal-\d+\.jsonl$/.test(name))
+      .sort()
+      .map(name => path.join(this.dir, name));
+    return existsSync(this.journalPath) ? [...archived, this.journalPath] : archived;
+  }
+
+  append(record: JournalRecord): void {
+    appendFileSync(this.journalPath, encodeJson(record) + '\n', 'utf-8');
+  }
+
+  readEvents(afterSeq: number): JournalRecord[] {
+    if (!existsSync(this.journalPath)) {
+      return [];
+    }
+
+    const lines = readFileSync(this.journalPath, 'utf-8').split('\n');
+    const records: JournalRecord[] = [];
+    for (const [index, line] of lines.entries()) {
+      if (line.trim() === '') continue;
+      try {
+        records.push(decodeJson<JournalRecord>(line));
+      } catch (error) {
+        if (index < lines.length - 1) {
+          throw new Error(`Corrupt order book journal ${this.journalPath} at line ${index + 1}`);
+        }
+        logger.warn(`Dropping torn last line of ${this.journalPath}`);
+        this.writeRecords(this.journalPath, records);
+      }
+    }
+
+    return records.filter(record => record.seq > afterSeq);
+  }
+
+  loadSnapshot(): OrderBookSnapshot | undefined {
+    if (!existsSync(this.snapshotPath)) {
+      return undefined;
+    }
+    return decodeJson<OrderBookSnapshot>(readFileSync(this.snapshotPath, 'utf-8'));
+  }
+
+  saveSnapshot(snapshot: OrderBookSnapshot): void {
+    const records = this.readEvents(0);
+    const covered = records.filter(record => record.seq <= snapshot.seq);
+    if (covered.length > 0) {
+      this.writeRecords(path.join(this.dir, `journal-${String(snapshot.seq).padStart(12, '0')}.jsonl`), covered);
+    }
+
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    writeFileSync(tmpPath, encodeJson(snapshot), 'utf-8');
+    renameSync(tmpPath, this.snapshotPath);
+
+    this.writeRecords(this.journalPath, records.filter(record => record.seq > snapshot.seq));
+  }
+
+  private writeRecords(filePath: string, records: JournalRecord[]): void {
+    const tmpPath = `${filePath}.tmp`;
+    writeFileSync(tmpPath, records.map(record => encodeJson(record) + '\n').join(''), 'utf-8');
+    renameSync(tmpPath, filePath);
+  }
+}
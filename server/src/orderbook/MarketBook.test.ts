@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { TOKENS } from '@shared/markets/registry';
+import { MarketBook, compareTimePriority } from './MarketBook';
+import type { OrderBookEntry } from './OrderBook';
+import { ALICE, ETH, PRICE, makeOrder } from './test-fixtures';
+
+function entry(id: string, sequence: number, createdAt: string, price = PRICE): OrderBookEntry {
+  return { order: makeOrder({ id, maker: ALICE, side: 'sell', price, createdAt }), sequence, reserved: 0n, fills: [] };
+}
+
+describe('compareTimePriority', () => {
+  it('puts the earlier createdAt first', () => {
+    const older = entry('older', 2, '2024-01-01T00:00:00.000Z');
+    const newer = entry('newer', 1, '2024-01-01T00:00:00.001Z');
+
+    expect(compareTimePriority(older, newer)).toBeLessThan(0);
+    expect(compareTimePriority(newer, older)).toBeGreaterThan(0);
+  });
+
+  it('breaks a same-millisecond tie by insertion sequence', () => {
+    const first = entry('first', 1, '2024-01-01T00:00:00.000Z');
+    const second = entry('second', 2, '2024-01-01T00:00:00.000Z');
+
+    expect(compareTimePriority(first, second)).toBeLessThan(0);
+    expect(compareTimePriority(second, first)).toBeGreaterThan(0);
+    expect(compareTimePriority(first, first)).toBe(0);
+  });
+});
+
+describe('MarketBook', () => {
+  it('queues a price level in time priority whatever the insertion order', () => {
+    const book = new MarketBook(TOKENS.ETH.address, TOKENS.USDC.address);
+    const same = '2024-01-01T00:00:01.000Z';
+    book.add(entry('late', 1, '2024-01-01T00:00:02.000Z'));
+    book.add(entry('tie-b', 3, same));
+    book.add(entry('early', 4, '2024-01-01T00:00:00.000Z'));
+    book.add(entry('tie-a', 2, same));
+
+    expect(book.getLevel('sell', PRICE)!.entries.map(e => e.order.id)).toEqual(['early', 'tie-a', 'tie-b', 'late']);
+  });
+
+  it('offers crossing makers best price first, then by time', () => {
+    const book = new MarketBook(TOKENS.ETH.address, TOKENS.USDC.address);
+    book.add(entry('old-high', 1, '2024-01-01T00:00:00.000Z', PRICE + ETH));
+    book.add(entry('new-low', 2, '2024-01-01T00:00:05.000Z', PRICE));
+    book.add(entry('newer-low', 3, '2024-01-01T00:00:06.000Z', PRICE));
+    book.add(entry('too-high', 4, '2024-01-01T00:00:00.000Z', PRICE + 2n * ETH));
+
+    const crossing = [...book.crossingEntries('buy', PRICE + ETH)].map(e => e.order.id);
+
+    expect(crossing).toEqual(['new-low', 'newer-low', 'old-high']);
+    expect(book.queuePosition(book.getLevel('sell', PRICE)!.entries[1])).toMatchObject({ position: 1, ordersAhead: 1 });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * ============================================================================
+ * PRICE-LEVEL INDEXED MARKET BOOK
+ * ============================================================================
+ *
+ * Holds the resting orders of a single base/quote market
+ *
+ * STRUCTURE:
+ * - Bids and asks kept as arrays of price levels, sorted best-first
+ * - Each price level is a queue ordered by createdAt, then by the
+ *   sequence number assigned when the order entered the book
+ * - Price lookup by map, level insertion by binary search
+ * - All price comparisons done on bigint (no Number() precision loss)
+ * - Depth and queue quantities count only the visible slice of iceberg
+ *   orders
+ * ============================================================================
+ */
+
+import { isIceberg, type OrderRecord, type OrderSide } from '@shared/types/order';
+import type { OrderBookEntry } from './OrderBook';
+
+export interface PriceLevel {
+  readonly price: bigint;
+  readonly entries: OrderBookEntry[];
+}
+
+export interface QueuePosition {
+  price: bigint;
+  position: number; // 0 = next to fill at this price
+  ordersAhead: number;
+  quantityAhead: bigint;
+  levelSize: number;
+}
+
+export interface DepthLevel {
+  price: bigint;
+  quantity: bigint;
+  orders: number;
+}
+
+/**
+ * Compare two entries by time priority: earlier createdAt first, with the
+ * insertion sequence breaking ties between orders from the same millisecond
+ */
+export function compareTimePriority(a: OrderBookEntry, b: OrderBookEntry): number {
+  const timeA = Date.parse(a.order.createdAt) || 0;
+  const timeB = Date.parse(b.order.createdAt) || 0;
+  if (timeA !== timeB) {
+    return timeA - timeB;
+  }
+  return a.sequence - b.sequence;
+}
+
+/**
+ * Quantity an entry shows in the book: the current slice of an iceberg
+ * order, the full remaining quantity otherwise
+ */
+export function visibleQuantity(entry: Pick<OrderBookEntry, 'order' | 'displayed'>): bigint {
+  return entry.displayed ?? entry.order.remaining;
+}
+
+/**
+ * Order as traders other than its maker may see it: an iceberg order shows
+ * its current slice as size and remaining, and no display size
+ */
+export function publicOrderView(entry: Pick<OrderBookEntry, 'order' | 'displayed'>): OrderRecord {
+  if (!isIceberg(entry.order)) return entry.order;
+
+  const visible = visibleQuantity(entry);
+  return { ...entry.order, size: visible, remaining: visible, displaySize: undefined };
+}
+
+/**
+ * Build the key used to index a market by its token pair
+ */
+export function marketKey(baseToken: string, quoteToken: string): string {
+  return `${baseToken.toLowerCase()}/${quoteToken.toLowerCase()}`;
+}
+
+export class MarketBook {
+  private bids: PriceLevel[] = []; // Highest price first
+  private asks: PriceLevel[] = []; // Lowest price first
+  private bidLevels = new Map<bigint, PriceLevel>();
+  private askLevels = new Map<bigint, PriceLevel>();
+
+  constructor(
+    readonly baseToken: string,
+    readonly quoteToken: string
+  ) {}
+
+  get key(): string {
+    return marketKey(this.baseToken, this.quoteToken);
+  }
+
+  get size(): number {
+    let count = 0;
+    for (const level of this.bids) count += level.entries.length;
+    for (const level of this.asks) count += level.entries.length;
+    return count;
+  }
+
+  /**
+   * Queue an order at its price level in time priority
+   */
+  add(entry: OrderBookEntry): void {
+    const { side, price } = entry.order;
+    const index = this.levelIndex(side);
+
+    let level = index.get(price);
+    if (!level) {
+      level = { price, entries: [] };
+      index.set(price, level);
+      this.insertLevel(side, level);
+    }
+
+    // New orders almost always belong at the back, so scan from there
+    let position = level.entries.length;
+    while (position > 0 && compareTimePriority(level.entries[position - 1], entry) > 0) {
+      position--;
+    }
+    level.entries.splice(position, 0, entry);
+  }
+
+  /**
+   * Remove an order from its price level, dropping the level once empty
+   */
+  remove(entry: OrderBookEntry): boolean {
+    const { side, price, id } = entry.order;
+    const index = this.levelIndex(side);
+    const level = index.get(price);
+    if (!level) {
+      return false;
+    }
+
+    const position = level.entries.findIndex(e => e.order.id === id);
+    if (position === -1) {
+      return false;
+    }
+
+    level.entries.splice(position, 1);
+
+    if (level.entries.length === 0) {
+      index.delete(price);
+      const levels = this.levels(side);
+      const levelPosition = this.search(side, price);
+      if (levels[levelPosition] === level) {
+        levels.splice(levelPosition, 1);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Sorted price levels for a side, best price first
+   */
+  levels(side: OrderSide): PriceLevel[] {
+    return side === 'buy' ? this.bids : this.asks;
+  }
+
+  /**
+   * Get the price level holding a given price, if any
+   */
+  getLevel(side: OrderSide, price: bigint): PriceLevel | undefined {
+    return this.levelIndex(side).get(price);
+  }
+
+  /**
+   * Report where an order sits in its price level queue
+   */
+  queuePosition(entry: OrderBookEntry): QueuePosition | undefined {
+    const level = this.getLevel(entry.order.side, entry.order.price);
+    if (!level) {
+      return undefined;
+    }
+
+    const position = level.entries.findIndex(e => e.order.id === entry.order.id);
+    if (position === -1) {
+      return undefined;
+    }
+
+    return {
+      price: level.price,
+      position,
+      ordersAhead: position,
+      quantityAhead: level.entries.slice(0, position).reduce((sum, e) => sum + visibleQuantity(e), 0n),
+      levelSize: level.entries.length,
+    };
+  }
+
+  /**
+   * Aggregate a single price level (zero quantity when the level is empty)
+   */
+  levelSummary(side: OrderSide, price: bigint): DepthLevel {
+    const level = this.getLevel(side, price);
+    return {
+      price,
+      quantity: level ? level.entries.reduce((sum, e) => sum + visibleQuantity(e), 0n) : 0n,
+      orders: level ? level.entries.length : 0,
+    };
+  }
+
+  bestBid(): PriceLevel | undefined {
+    return this.bids[0];
+  }
+
+  bestAsk(): PriceLevel | undefined {
+    return this.asks[0];
+  }
+
+  /**
+   * Aggregate the top price levels of a side
+   */
+  depth(side: OrderSide, maxLevels?: number): DepthLevel[] {
+    const levels = this.levels(side);
+    const count = maxLevels === undefined ? levels.length : Math.min(maxLevels, levels.length);
+    const depth: DepthLevel[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const level = levels[i];
+      depth.push({
+        price: level.price,
+        quantity: level.entries.reduce((sum, e) => sum + visibleQuantity(e), 0n),
+        orders: level.entries.length,
+      });
+    }
+
+    return depth;
+  }
+
+  /**
+   * All resting entries, bids then asks, each in price-time order
+   */
+  entries(): OrderBookEntry[] {
+    const result: OrderBookEntry[] = [];
+    for (const level of this.bids) result.push(...level.entries);
+    for (const level of this.asks) result.push(...level.entries);
+    return result;
+  }
+
+  /**
+   * Walk the side opposite to a taker, best price first, stopping at the
+   * first level that no longer crosses the taker's limit price
+   */
+  *crossingEntries(takerSide: OrderSide, takerPrice: bigint): Generator<OrderBookEntry> {
+    const makerSide: OrderSide = takerSide === 'buy' ? 'sell' : 'buy';
+
+    // Copy so callers can fill (and remove) entries while iterating
+    for (const level of [...this.levels(makerSide)]) {
+      // For taker buy order: maker sell price must be <= taker's willing price
+      // For taker sell order: maker buy price must be >= taker's willing price
+      const crosses = takerSide === 'buy' ? level.price <= takerPrice : level.price >= takerPrice;
+      if (!crosses) {
+        return;
+      }
+
+      for (const entry of [...level.entries]) {
+        yield entry;
+      }
+    }
+  }
+
+  // ========================================
+  // Private: Level Index
+  // ========================================
+
+  private levelIndex(side: OrderSide): Map<bigint, PriceLevel> {
+    return side === 'buy' ? this.bidLevels : this.askLevels;
+  }
+
+  private insertLevel(side: OrderSide, level: PriceLevel): void {
+    const levels = this.levels(side);
+    levels.splice(this.search(side, level.price), 0, level);
+  }
+
+  /**
+   * Binary search for the position of a price within a side
+   * (the index of the level itself, or where it would be inserted)
+   */
+  private search(side: OrderSide, price: bigint): number {
+    const levels = this.levels(side);
+    let low = 0;
+    let high = levels.length;
+
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const before = side === 'buy' ? levels[mid].price > price : levels[mid].price < price;
+      if (before) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
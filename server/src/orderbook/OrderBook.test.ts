@@ -0,0 +1,394 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { MarketRegistry, TOKENS } from '@shared/markets/registry';
+import { setLoggerSilenced } from '../nitrolite/utils/logger';
+import { OrderBook } from './OrderBook';
+import { ALICE, BOB, CAROL, ETH, PRICE, makeOrder } from './test-fixtures';
+
+describe('OrderBook reservations', () => {
+  let book: OrderBook;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    book = new OrderBook();
+    book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+    book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy' }));
+  });
+
+  function reserve(quantity: bigint) {
+    return book.reserveMatch({
+      makerOrderId: 'ask',
+      takerOrderId: 'bid',
+      makerAddress: ALICE,
+      takerAddress: BOB,
+      quantity,
+      value: (quantity * PRICE) / ETH,
+    });
+  }
+
+  function expectBalanced(): void {
+    for (const orderId of ['ask', 'bid']) {
+      const entry = book.getOrder(orderId)!;
+      const filled = entry.fills.reduce((sum, fill) => sum + fill.quantity, 0n);
+      expect(entry.order.remaining + entry.reserved + filled).toBe(entry.order.size);
+    }
+    expect(book.verifyConsistency()).toEqual([]);
+  }
+
+  it('holds a reservation on both orders', () => {
+    const { tradeId } = reserve(ETH / 4n);
+
+    expect(book.getOrder('ask')!.reserved).toBe(ETH / 4n);
+    expect(book.getOrder('bid')!.order.remaining).toBe((ETH * 3n) / 4n);
+    expect(book.getReservation(tradeId)).toBeDefined();
+    expectBalanced();
+  });
+
+  it('moves a committed reservation into fills', () => {
+    const { tradeId } = reserve(ETH / 4n);
+    book.commitMatch(tradeId);
+
+    const ask = book.getOrder('ask')!;
+    expect(ask.reserved).toBe(0n);
+    expect(ask.fills.map(fill => fill.quantity)).toEqual([ETH / 4n]);
+    expect(ask.order.status).toBe('partially_filled');
+    expect(book.getReservations()).toEqual([]);
+    expectBalanced();
+  });
+
+  it('gives a released reservation back to both orders', () => {
+    const { tradeId } = reserve(ETH / 4n);
+    book.releaseMatch(tradeId, 'session failed');
+
+    expect(book.getOrder('ask')!.order.remaining).toBe(ETH);
+    expect(book.getOrder('bid')!.order.remaining).toBe(ETH);
+    expect(book.getActiveOrders().map(entry => entry.order.id).sort()).toEqual(['ask', 'bid']);
+    expectBalanced();
+  });
+
+  it('keeps the balance across a mix of commits and releases', () => {
+    const first = reserve(ETH / 4n);
+    const second = reserve(ETH / 2n);
+    expectBalanced();
+
+    book.releaseMatch(first.tradeId, 'timed out');
+    expectBalanced();
+    book.commitMatch(second.tradeId);
+    expectBalanced();
+
+    const third = reserve(ETH / 2n);
+    book.commitMatch(third.tradeId);
+    expectBalanced();
+    expect(book.getOrder('ask')!.order.status).toBe('filled');
+    expect(book.getActiveOrders()).toEqual([]);
+  });
+
+  it('leaves the book unchanged when a reservation is rejected', () => {
+    const before = book.exportState();
+
+    expect(() => reserve(2n * ETH)).toThrow();
+    expect(book.exportState()).toEqual(before);
+    expectBalanced();
+  });
+});
+
+describe('OrderBook market grid', () => {
+  let book: OrderBook;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    book = new OrderBook();
+  });
+
+  it('accepts an order on the tick and lot grid', () => {
+    expect(book.createOrder(makeOrder({ id: 'ok', maker: ALICE, side: 'sell', minFill: ETH / 10n })).status).toBe('open');
+  });
+
+  it('rejects a price off the tick size', () => {
+    expect(() => book.createOrder(makeOrder({ id: 'tick', maker: ALICE, side: 'sell', price: PRICE + 1n }))).toThrow(
+      /not a multiple of tick size/
+    );
+  });
+
+  it('rejects a size or minFill off the lot size', () => {
+    expect(() => book.createOrder(makeOrder({ id: 'lot', maker: ALICE, side: 'sell', size: ETH + 1n }))).toThrow(
+      /Size .* lot size/
+    );
+    expect(() => book.createOrder(makeOrder({ id: 'min', maker: ALICE, side: 'sell', minFill: 1n }))).toThrow(
+      /minFill .* lot size/
+    );
+  });
+
+  it('rejects an order below the minimum notional', () => {
+    // 0.0001 ETH at 3000 USDC is 0.30 USDC, below the 1 USDC minimum
+    expect(() => book.createOrder(makeOrder({ id: 'small', maker: ALICE, side: 'sell', size: 10n ** 14n }))).toThrow(
+      /notional 300000 below minimum 1000000 USDC/
+    );
+    expect(book.getActiveOrders()).toEqual([]);
+  });
+
+  it('rejects a market the registry does not list', () => {
+    expect(() =>
+      book.createOrder(makeOrder({ id: 'pair', maker: ALICE, side: 'sell', baseToken: TOKENS.WETH.address, quoteToken: TOKENS.ETH.address }))
+    ).toThrow(/Unsupported market/);
+  });
+
+  it('checks orders against the registry it was given', () => {
+    const coarse = new OrderBook(
+      new MarketRegistry([{ symbol: 'ETH/USDC', base: TOKENS.ETH, quote: TOKENS.USDC, tickSize: ETH, lotSize: ETH, minNotional: 0n }])
+    );
+
+    expect(() => coarse.createOrder(makeOrder({ id: 'half', maker: ALICE, side: 'sell', size: ETH / 2n }))).toThrow(/lot size/);
+    expect(coarse.createOrder(makeOrder({ id: 'one', maker: ALICE, side: 'sell' })).status).toBe('open');
+  });
+});
+
+describe('OrderBook price-time priority', () => {
+  let clock: number;
+  let book: OrderBook;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    clock = Date.parse('2024-01-01T00:00:00.000Z');
+    book = new OrderBook(undefined, { now: () => clock });
+  });
+
+  function matchingIds(): string[] {
+    return book.findMatchingOrders('buy', TOKENS.ETH.address, TOKENS.USDC.address, PRICE + ETH, ETH).map(entry => entry.order.id);
+  }
+
+  it('fills the best price first, then the oldest order', () => {
+    // Placed newest first, so only createdAt can put them in time order
+    book.createOrder(makeOrder({ id: 'better-new', maker: ALICE, side: 'sell', createdAt: '2024-01-01T00:00:02.000Z' }));
+    book.createOrder(makeOrder({ id: 'better-old', maker: ALICE, side: 'sell', createdAt: '2024-01-01T00:00:01.000Z' }));
+    book.createOrder(makeOrder({ id: 'worse', maker: ALICE, side: 'sell', price: PRICE + ETH, createdAt: '2024-01-01T00:00:00.000Z' }));
+
+    expect(matchingIds()).toEqual(['better-old', 'better-new', 'worse']);
+  });
+
+  it('keeps insertion order for orders placed in the same millisecond', () => {
+    for (const id of ['a', 'b', 'c']) {
+      book.createOrder(makeOrder({ id, maker: ALICE, side: 'sell' }));
+    }
+
+    expect(matchingIds()).toEqual(['a', 'b', 'c']);
+    expect(book.getQueuePosition('c')).toMatchObject({ position: 2, ordersAhead: 2, quantityAhead: 2n * ETH });
+  });
+
+  it('sends a cancel-replaced order to the back of its new level', () => {
+    book.createOrder(makeOrder({ id: 'a', maker: ALICE, side: 'sell' }));
+    book.createOrder(makeOrder({ id: 'b', maker: BOB, side: 'sell' }));
+
+    book.amendOrder('a', ALICE, { size: 2n * ETH });
+
+    expect(matchingIds()).toEqual(['b', 'a']);
+  });
+});
+
+describe('OrderBook amendOrder', () => {
+  let clock: number;
+  let book: OrderBook;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    clock = Date.parse('2024-01-01T00:00:00.000Z');
+    book = new OrderBook(undefined, { now: () => clock });
+    book.createOrder(makeOrder({ id: 'first', maker: ALICE, side: 'sell', size: 2n * ETH }));
+    book.createOrder(makeOrder({ id: 'second', maker: BOB, side: 'sell' }));
+    clock += 1000;
+  });
+
+  it('keeps priority when the size shrinks at the same price', () => {
+    const before = book.getOrder('first')!;
+    const { order, priorityKept } = book.amendOrder('first', ALICE, { size: ETH, nonce: 'amend-1', signature: '0x01' });
+
+    expect(priorityKept).toBe(true);
+    expect(order).toMatchObject({ size: ETH, remaining: ETH, nonce: 'amend-1', signature: '0x01' });
+    expect(order.createdAt).toBe(before.order.createdAt);
+    expect(order.updatedAt).toBe(new Date(clock).toISOString());
+    expect(book.getOrder('first')!.sequence).toBe(before.sequence);
+    expect(book.getQueuePosition('first')!.position).toBe(0);
+  });
+
+  it('keeps priority when only the terms change', () => {
+    expect(book.amendOrder('first', ALICE, { minFill: ETH / 10n }).priorityKept).toBe(true);
+    expect(book.getQueuePosition('first')!.position).toBe(0);
+  });
+
+  it('cancel-replaces when the size grows', () => {
+    const { order, priorityKept } = book.amendOrder('first', ALICE, { size: 3n * ETH });
+
+    expect(priorityKept).toBe(false);
+    expect(order.createdAt).toBe(new Date(clock).toISOString());
+    expect(book.getQueuePosition('first')!.position).toBe(1);
+  });
+
+  it('cancel-replaces when the price moves, even to a better one', () => {
+    const { order, priorityKept } = book.amendOrder('first', ALICE, { price: PRICE - ETH });
+
+    expect(priorityKept).toBe(false);
+    expect(order.price).toBe(PRICE - ETH);
+    expect(book.getDepth(TOKENS.ETH.address, TOKENS.USDC.address).asks.map(level => level.price)).toEqual([PRICE - ETH, PRICE]);
+  });
+
+  it('keeps what was filled and sizes remaining from it', () => {
+    const { tradeId } = book.reserveMatch({
+      makerOrderId: 'first',
+      takerOrderId: 'second',
+      makerAddress: ALICE,
+      takerAddress: BOB,
+      quantity: ETH / 2n,
+      value: 1500n * 10n ** 6n, // 1500 USDC
+    });
+    book.commitMatch(tradeId);
+
+    const { order } = book.amendOrder('first', ALICE, { size: ETH });
+
+    expect(order.remaining).toBe(ETH / 2n);
+    expect(book.getOrder('first')!.fills).toHaveLength(1);
+    expect(() => book.amendOrder('first', ALICE, { size: ETH / 2n })).toThrow(/must exceed filled quantity/);
+  });
+
+  it('leaves the order untouched when the amendment is rejected', () => {
+    const before = book.exportState();
+
+    expect(() => book.amendOrder('first', BOB, { size: ETH })).toThrow('Only maker can amend order');
+    expect(() => book.amendOrder('first', ALICE, { price: PRICE + 1n })).toThrow(/tick size/);
+    expect(() => book.amendOrder('first', ALICE, { minFill: 3n * ETH })).toThrow(/minFill cannot exceed/);
+    expect(() => book.amendOrder('missing', ALICE, { size: ETH })).toThrow(/not found/);
+    expect(book.exportState()).toEqual(before);
+
+    book.cancelOrder('second', BOB);
+    expect(() => book.amendOrder('second', BOB, { size: ETH / 2n })).toThrow('Cannot amend cancelled order');
+  });
+});
+
+describe('OrderBook iceberg orders', () => {
+  let clock: number;
+  let book: OrderBook;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    clock = Date.parse('2024-01-01T00:00:00.000Z');
+    book = new OrderBook(undefined, { now: () => clock });
+    book.createOrder(makeOrder({ id: 'iceberg', maker: ALICE, side: 'sell', size: 3n * ETH, displaySize: ETH }));
+    book.createOrder(makeOrder({ id: 'plain', maker: CAROL, side: 'sell' }));
+    book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', price: PRICE - ETH, size: 10n * ETH }));
+    clock += 1000;
+  });
+
+  function take(quantity: bigint): string {
+    return book.reserveMatch({
+      makerOrderId: 'iceberg',
+      takerOrderId: 'bid',
+      makerAddress: ALICE,
+      takerAddress: BOB,
+      quantity,
+      value: (quantity * 3000n * 10n ** 6n) / ETH,
+    }).tradeId;
+  }
+
+  function asks() {
+    return book.getDepth(TOKENS.ETH.address, TOKENS.USDC.address).asks;
+  }
+
+  it('shows only the display size', () => {
+    expect(book.getOrder('iceberg')!.displayed).toBe(ETH);
+    expect(asks()).toEqual([{ price: PRICE, quantity: 2n * ETH, orders: 2 }]);
+  });
+
+  it('shrinks the slice on a partial take without losing its place', () => {
+    take(ETH / 4n);
+
+    expect(book.getOrder('iceberg')!.displayed).toBe((ETH * 3n) / 4n);
+    expect(book.getQueuePosition('iceberg')!.position).toBe(0);
+  });
+
+  it('refills a taken slice at the back of its level, at book time', () => {
+    const sequence = book.getOrder('iceberg')!.sequence;
+    take(ETH);
+
+    const entry = book.getOrder('iceberg')!;
+    expect(entry.displayed).toBe(ETH);
+    expect(entry.order.remaining).toBe(2n * ETH);
+    expect(entry.order.createdAt).toBe(new Date(clock).toISOString());
+    expect(entry.sequence).toBeGreaterThan(sequence);
+    expect(book.getQueuePosition('iceberg')!.position).toBe(1);
+    expect(book.verifyConsistency()).toEqual([]);
+  });
+
+  it('shows a last slice smaller than the display size', () => {
+    book.amendOrder('iceberg', ALICE, { size: ETH + ETH / 2n });
+    take(ETH);
+
+    expect(book.getOrder('iceberg')!.displayed).toBe(ETH / 2n);
+    expect(asks()[0].quantity).toBe(ETH + ETH / 2n);
+  });
+
+  it('gives a released quantity back to the slice, up to the display size', () => {
+    const tradeId = take(ETH / 2n);
+    book.releaseMatch(tradeId, 'session failed');
+
+    expect(book.getOrder('iceberg')!.displayed).toBe(ETH);
+    expect(book.getOrder('iceberg')!.order.remaining).toBe(3n * ETH);
+  });
+
+  it('rejects a display size it cannot show', () => {
+    const iceberg = (displaySize: bigint, overrides = {}) => () =>
+      book.createOrder(makeOrder({ id: `bad-${displaySize}`, maker: ALICE, side: 'sell', size: 2n * ETH, displaySize, ...overrides }));
+
+    expect(iceberg(2n * ETH)).toThrow(/must be below order size/);
+    expect(iceberg(ETH + 1n)).toThrow(/lot size/);
+    expect(iceberg(ETH / 2n, { minFill: ETH })).toThrow(/below minFill/);
+    expect(iceberg(ETH, { timeInForce: 'IOC' })).toThrow('Iceberg orders must be able to rest on the book');
+    expect(iceberg(ETH, { allOrNone: true })).toThrow('Iceberg orders cannot be all-or-none');
+  });
+});
+
+describe('OrderBook iceberg slices and minFill', () => {
+  beforeAll(() => setLoggerSilenced(true));
+
+  function takeFrom(book: OrderBook, quantity: bigint): void {
+    book.reserveMatch({
+      makerOrderId: 'iceberg',
+      takerOrderId: 'bid',
+      makerAddress: ALICE,
+      takerAddress: BOB,
+      quantity,
+      value: (quantity * 3000n * 10n ** 6n) / ETH,
+    });
+  }
+
+  function icebergBook(minFill: bigint): OrderBook {
+    const book = new OrderBook();
+    book.createOrder(makeOrder({ id: 'iceberg', maker: ALICE, side: 'sell', size: 3n * ETH, displaySize: ETH, minFill }));
+    book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', price: PRICE - ETH, size: 10n * ETH }));
+    return book;
+  }
+
+  it('refills an emptied slice when there is no minFill', () => {
+    const book = icebergBook(0n);
+    takeFrom(book, ETH);
+
+    expect(book.getOrder('iceberg')!.displayed).toBe(ETH);
+  });
+
+  it('tops up a slice left below minFill', () => {
+    const book = icebergBook(ETH / 2n);
+    takeFrom(book, (ETH * 3n) / 4n);
+
+    expect(book.getOrder('iceberg')!.displayed).toBe(ETH);
+    expect(book.getOrder('iceberg')!.order.remaining).toBe(3n * ETH - (ETH * 3n) / 4n);
+  });
+
+  it('keeps a slice that can still take minFill', () => {
+    const book = icebergBook(ETH / 4n);
+    takeFrom(book, ETH / 2n);
+
+    expect(book.getOrder('iceberg')!.displayed).toBe(ETH / 2n);
+  });
+});
@@ -8,66 +8,268 @@
  * FEATURES:
  * - Create limit orders (buy/sell)
  * - Match orders at specified price
- * - Partial fill support
+ * - Partial fill support: per-execution minFill, all-or-none orders
+ * - Matched quantity reserved until the trade session exists, then
+ *   committed as a fill or released back to both orders
  * - Order lifecycle management
  * - Multi-asset support (ETH/USDC, USDC/ETH, USDC/USDC)
+ * - Price-level indexed books per market (see MarketBook)
+ * - Tick size, lot size and minimum notional from the market registry
+ * - Time-in-force: IOC/FOK orders never rest, post-only orders never cross
+ * - Market orders bounded by a worst price or maximum slippage
+ * - Iceberg orders: only `displaySize` is visible, refilled from the
+ *   hidden remainder with fresh time priority
+ * - Every mutation emitted as a 'command' (the call and its arguments),
+ *   then one 'change' per effect (see OrderBookChange), so the book can be
+ *   journaled and replayed; exportState()/restore() to rebuild it
+ * - Deterministic given its commands: time comes from an injectable clock,
+ *   read once per command, and trade ids from a counter
  * ============================================================================
  */
 
-import { type OrderRecord, type OrderSide, type OrderStatus } from '@shared/types/order';
+import {
+  MAX_SLIPPAGE_BPS,
+  SELF_TRADE_PREVENTION_MODES,
+  TIME_IN_FORCE_VALUES,
+  isIceberg,
+  isPostOnly,
+  orderTypeOf,
+  restsOnBook,
+  timeInForceOf,
+  type OrderRecord,
+  type OrderSide,
+  type OrderStatus,
+  type TimeInForce,
+} from '@shared/types/order';
+import { marketRegistry, validateOrderGrid, type MarketRegistry } from '@shared/markets/registry';
+import { computePartialFill, minimumExecution } from '@shared/math/partialFill';
+import type { MarketConfig } from '@shared/types/market';
 import { logger } from '../nitrolite/utils/logger';
+import { EventEmitter } from 'events';
+import { MarketBook, marketKey, visibleQuantity, type DepthLevel, type QueuePosition } from './MarketBook';
 
-interface OrderBookEntry {
+export interface OrderBookEntry {
   order: OrderRecord;
-  fills: Array<{
-    tradeId: string;
-    quantity: bigint;
-    value: bigint;
-    timestamp: number;
-    taker: string;
-  }>;
+  sequence: number; // Insertion order, breaks createdAt ties
+  displayed?: bigint; // Visible slice of an iceberg order (see visibleQuantity)
+  reserved: bigint; // Taken off remaining for trades awaiting their session
+  fills: OrderFill[];
 }
 
-export class OrderBook {
+export interface OrderFill {
+  tradeId: string;
+  quantity: bigint;
+  value: bigint;
+  timestamp: number;
+  taker: string; // Counterparty address
+}
+
+/**
+ * Quantity held on both orders of a match until its trade session is
+ * created (commitMatch) or abandoned (releaseMatch)
+ */
+export interface FillReservation {
+  readonly tradeId: string;
+  readonly makerOrderId: string;
+  readonly takerOrderId: string;
+  readonly makerAddress: string;
+  readonly takerAddress: string;
+  readonly quantity: bigint;
+  readonly value: bigint;
+  readonly createdAt: number;
+}
+
+/**
+ * A match to hold with reserveMatch, which assigns its trade id
+ */
+export type MatchToReserve = Omit<FillReservation, 'tradeId' | 'createdAt'>;
+
+/**
+ * Emitted as 'level' whenever the aggregate at a price level changes
+ */
+export interface LevelChange {
+  baseToken: string;
+  quoteToken: string;
+  side: OrderSide;
+  price: bigint;
+  quantity: bigint; // 0n when the level was removed
+  orders: number;
+}
+
+/**
+ * Emitted as 'change' after every mutation of an order or reservation.
+ * `order` changes carry the complete state of the order apart from its
+ * fills, which are emitted one by one as `fill` changes.
+ */
+export type OrderBookChange =
+  | {
+      type: 'order';
+      order: OrderRecord;
+      sequence: number;
+      displayed?: bigint;
+      reserved: bigint;
+      active: boolean; // In activeOrders (can still be filled)
+    }
+  | { type: 'fill'; orderId: string; fill: OrderFill }
+  | { type: 'reserved'; reservation: FillReservation }
+  | { type: 'unreserved'; tradeId: string }; // Committed or released
+
+/**
+ * A call to one of the book's mutating methods. Emitted as 'command' (see
+ * IssuedCommand) before it runs; a command that throws is followed by a
+ * 'rejected' with the error message. Commands issued from inside another
+ * command (cancelAllOrders) are part of the outer one.
+ */
+export type OrderBookCommand =
+  | { name: 'createOrder'; order: OrderRecord }
+  | { name: 'amendOrder'; orderId: string; maker: string; amendment: OrderAmendment }
+  | { name: 'cancelOrder'; orderId: string; maker: string }
+  | { name: 'cancelAllOrders'; maker: string; baseToken?: string; quoteToken?: string }
+  | { name: 'cancelRemainder'; orderId: string; reason: string }
+  | { name: 'decrementOrder'; orderId: string; quantity: bigint; reason: string }
+  | { name: 'expireOrder'; orderId: string }
+  | { name: 'recordFill'; orderId: string; tradeId: string; quantity: bigint; value: bigint; taker: string }
+  | { name: 'reserveMatch'; match: MatchToReserve }
+  | { name: 'commitMatch'; tradeId: string }
+  | { name: 'releaseMatch'; tradeId: string; reason: string };
+
+export interface IssuedCommand {
+  at: number; // Book time (ms) for everything the command does
+  command: OrderBookCommand;
+}
+
+/**
+ * Everything needed to rebuild a book with restore(). Market books are
+ * derived: they hold exactly the active orders that rest on the book.
+ */
+export interface OrderBookState {
+  nextSequence: number;
+  nextTradeNumber: number;
+  orders: OrderBookEntry[];
+  activeOrders: string[];
+  reservations: FillReservation[];
+}
+
+/**
+ * Changes to a resting order. Price, size and minFill must stay on the
+ * market grid; `size` is the new total size (filled quantity included).
+ */
+export interface OrderAmendment {
+  price?: bigint;
+  size?: bigint;
+  minFill?: bigint;
+  expiry?: number;
+  nonce?: string;
+  signature?: string;
+}
+
+export interface AmendResult {
+  order: OrderRecord;
+  priorityKept: boolean; // false when the order was cancel-replaced
+}
+
+export interface OrderBookOptions {
+  readonly now?: () => number; // Milliseconds like Date.now
+}
+
+export class OrderBook extends EventEmitter {
   private orders = new Map<string, OrderBookEntry>();
   private activeOrders = new Set<string>(); // Orders that can still be filled
+  private markets = new Map<string, MarketBook>(); // Resting orders by token pair
+  private reservations = new Map<string, FillReservation>(); // By trade id
+  private nextSequence = 0;
+  private nextTradeNumber = 0;
+  private readonly clock: () => number;
+  private commandTime?: number; // Set while a command runs
+
+  constructor(
+    private marketConfigs: MarketRegistry = marketRegistry,
+    options: OrderBookOptions = {}
+  ) {
+    super();
+    this.clock = options.now ?? Date.now;
+  }
 
   /**
-   * Create a new limit order
+   * Book time: the time of the command being executed, the clock otherwise
    */
-  createOrder(order: OrderRecord): void {
-    if (this.orders.has(order.id)) {
-      throw new Error(`Order ${order.id} already exists`);
-    }
+  now(): number {
+    return this.commandTime ?? this.clock();
+  }
 
-    // Validate order
-    if (order.size <= 0n) {
-      throw new Error('Order size must be positive');
-    }
-    if (order.price <= 0n) {
-      throw new Error('Order price must be positive');
-    }
-    if (order.minFill > order.size) {
-      throw new Error('minFill cannot exceed order size');
-    }
-    if (order.expiry < Date.now() / 1000) {
-      throw new Error('Order expiry must be in the future');
-    }
+  /**
+   * Create a new order. Returns the stored record, which differs from the
+   * input when a POST_ONLY_SLIDE order was repriced or a market order's
+   * worst price was resolved.
+   */
+  createOrder(order: OrderRecord): OrderRecord {
+    return this.execute({ name: 'createOrder', order: { ...order } }, () => {
+      if (this.orders.has(order.id)) {
+        throw new Error(`Order ${order.id} already exists`);
+      }
+      if (order.triggerType !== undefined && order.triggeredAt === undefined) {
+        throw new Error('Trigger orders wait in the trigger book until triggered');
+      }
 
-    this.orders.set(order.id, {
-      order,
-      fills: [],
-    });
-    this.activeOrders.add(order.id);
+      // Market orders trade up to a worst price, resolved before validation
+      order = this.resolveMarketPrice(order);
 
-    logger.success(`✓ Order created: ${order.id}`);
-    logger.data('Order Details', {
-      side: order.side,
-      baseToken: order.baseToken.substring(0, 10) + '...',
-      quoteToken: order.quoteToken.substring(0, 10) + '...',
-      price: order.price.toString(),
-      size: order.size.toString(),
-      minFill: order.minFill.toString(),
+      // Validate order
+      if (order.size <= 0n) {
+        throw new Error('Order size must be positive');
+      }
+      if (order.price <= 0n) {
+        throw new Error('Order price must be positive');
+      }
+      if (order.minFill > order.size) {
+        throw new Error('minFill cannot exceed order size');
+      }
+      const timeInForce = timeInForceOf(order);
+      if (!TIME_IN_FORCE_VALUES.includes(timeInForce)) {
+        throw new Error(`Unsupported timeInForce: ${timeInForce}`);
+      }
+      this.validateExpiry(timeInForce, order.expiry);
+      if (order.selfTradePrevention !== undefined && !SELF_TRADE_PREVENTION_MODES.includes(order.selfTradePrevention)) {
+        throw new Error(`Unsupported selfTradePrevention: ${order.selfTradePrevention}`);
+      }
+
+      // Validate against the market's trading rules
+      const market = this.marketConfigs.require(order.baseToken, order.quoteToken);
+      const gridError = validateOrderGrid(market, order);
+      if (gridError) {
+        throw new Error(gridError);
+      }
+      this.validateDisplaySize(order, market);
+
+      order = this.applyPostOnly(order, market);
+
+      const entry: OrderBookEntry = {
+        order,
+        sequence: this.nextSequence++,
+        displayed: this.sliceOf(order),
+        reserved: 0n,
+        fills: [],
+      };
+      this.orders.set(order.id, entry);
+      this.activeOrders.add(order.id);
+      if (restsOnBook(order)) {
+        this.getOrCreateMarket(order.baseToken, order.quoteToken).add(entry);
+        this.emitLevelChange(order);
+      }
+      this.emitOrderChange(entry);
+
+      logger.success(`✓ Order created: ${order.id}`);
+      logger.data('Order Details', {
+        side: order.side,
+        baseToken: order.baseToken.substring(0, 10) + '...',
+        quoteToken: order.quoteToken.substring(0, 10) + '...',
+        price: order.price.toString(),
+        size: order.size.toString(),
+        minFill: order.minFill.toString(),
+        displaySize: order.displaySize?.toString(),
+      });
+
+      return order;
     });
   }
 
@@ -98,11 +300,68 @@ export class OrderBook {
    * Get orders for a specific token pair
    */
   getOrdersByTokenPair(baseToken: string, quoteToken: string): OrderBookEntry[] {
-    return this.getActiveOrders().filter(
-      entry =>
-        entry.order.baseToken.toLowerCase() === baseToken.toLowerCase() &&
-        entry.order.quoteToken.toLowerCase() === quoteToken.toLowerCase()
-    );
+    return this.getMarket(baseToken, quoteToken)?.entries() ?? [];
+  }
+
+  /**
+   * Get the book for a specific token pair
+   */
+  getMarket(baseToken: string, quoteToken: string): MarketBook | undefined {
+    return this.markets.get(marketKey(baseToken, quoteToken));
+  }
+
+  /**
+   * Get the trading rules for a token pair (throws if unsupported)
+   */
+  getMarketConfig(baseToken: string, quoteToken: string): MarketConfig {
+    return this.marketConfigs.require(baseToken, quoteToken);
+  }
+
+  /**
+   * Get all markets that have held orders
+   */
+  getMarkets(): MarketBook[] {
+    return Array.from(this.markets.values());
+  }
+
+  /**
+   * Get the highest bid price for a token pair
+   */
+  getBestBid(baseToken: string, quoteToken: string): bigint | undefined {
+    return this.getMarket(baseToken, quoteToken)?.bestBid()?.price;
+  }
+
+  /**
+   * Get the lowest ask price for a token pair
+   */
+  getBestAsk(baseToken: string, quoteToken: string): bigint | undefined {
+    return this.getMarket(baseToken, quoteToken)?.bestAsk()?.price;
+  }
+
+  /**
+   * Get an active order's position in its price level queue
+   */
+  getQueuePosition(orderId: string): QueuePosition | undefined {
+    const entry = this.orders.get(orderId);
+    if (!entry || !this.activeOrders.has(orderId)) {
+      return undefined;
+    }
+    return this.getMarket(entry.order.baseToken, entry.order.quoteToken)?.queuePosition(entry);
+  }
+
+  /**
+   * Get aggregated price levels for both sides of a token pair
+   */
+  getDepth(
+    baseToken: string,
+    quoteToken: string,
+    maxLevels?: number
+  ): { bids: DepthLevel[]; asks: DepthLevel[] } {
+    const market = this.getMarket(baseToken, quoteToken);
+    return {
+      bids: market?.depth('buy', maxLevels) ?? [],
+      asks: market?.depth('sell', maxLevels) ?? [],
+    };
   }
 
   /**
@@ -118,103 +377,523 @@ export class OrderBook {
       return { canFill: false, reason: 'Order is not active' };
     }
 
-    if (entry.order.expiry < Date.now() / 1000) {
+    if (entry.order.expiry !== 0 && entry.order.expiry < this.now() / 1000) {
       return { canFill: false, reason: 'Order expired' };
     }
 
-    if (quantity < entry.order.minFill) {
-      return { canFill: false, reason: `Quantity ${quantity} below minFill ${entry.order.minFill}` };
+    if (quantity <= 0n) {
+      return { canFill: false, reason: 'Quantity must be positive' };
     }
 
     if (quantity > entry.order.remaining) {
       return { canFill: false, reason: `Quantity ${quantity} exceeds remaining ${entry.order.remaining}` };
     }
 
+    const fill = computePartialFill(quantity, entry.order.remaining, entry.order);
+    if (fill.blockedBy === 'allOrNone') {
+      return { canFill: false, reason: `All-or-none order needs its full remaining ${entry.order.remaining}` };
+    }
+    if (fill.blockedBy === 'minFill') {
+      return { canFill: false, reason: `Quantity ${quantity} below minFill ${entry.order.minFill}` };
+    }
+
     return { canFill: true };
   }
 
   /**
-   * Record a fill for an order
+   * Record a fill for an order straight away, without a reservation
    */
   recordFill(orderId: string, tradeId: string, quantity: bigint, value: bigint, taker: string): void {
-    const entry = this.orders.get(orderId);
-    if (!entry) {
-      throw new Error(`Order ${orderId} not found`);
-    }
+    return this.execute({ name: 'recordFill', orderId, tradeId, quantity, value, taker }, () => {
+      const entry = this.requireFillable(orderId, quantity);
 
-    const validation = this.canFill(orderId, quantity);
-    if (!validation.canFill) {
-      throw new Error(`Cannot fill order: ${validation.reason}`);
-    }
+      this.hold(entry, quantity);
+      this.settle(entry, { tradeId, quantity, value, timestamp: this.now(), taker });
+      this.emitLevelChange(entry.order);
+      this.emitOrderChange(entry);
+    });
+  }
+
+  /**
+   * Hold a matched quantity on both orders until the trade's session is
+   * created. The trade id is derived from both order ids and a counter, so
+   * replaying the same commands yields the same ids.
+   *
+   * Both orders are checked before either is touched, so a rejected
+   * reservation leaves the book unchanged.
+   */
+  reserveMatch(match: MatchToReserve): FillReservation {
+    return this.execute({ name: 'reserveMatch', match: { ...match } }, () => {
+      const tradeId = `trade-${match.makerOrderId}-${match.takerOrderId}-${this.nextTradeNumber}`;
+      if (this.reservations.has(tradeId)) {
+        throw new Error(`Trade ${tradeId} is already reserved`);
+      }
+      if (match.makerOrderId === match.takerOrderId) {
+        throw new Error('An order cannot be matched with itself');
+      }
+
+      const maker = this.requireFillable(match.makerOrderId, match.quantity);
+      const taker = this.requireFillable(match.takerOrderId, match.quantity);
+
+      this.hold(maker, match.quantity);
+      this.hold(taker, match.quantity);
 
-    // Record the fill
-    entry.fills.push({
-      tradeId,
-      quantity,
-      value,
-      timestamp: Date.now(),
-      taker,
+      const reservation: FillReservation = { ...match, tradeId, createdAt: this.now() };
+      this.reservations.set(tradeId, reservation);
+      this.nextTradeNumber++;
+
+      this.emitLevelChange(maker.order);
+      this.emitLevelChange(taker.order);
+      this.emitOrderChange(maker);
+      this.emitOrderChange(taker);
+      this.emitChange({ type: 'reserved', reservation });
+
+      logger.info(`Reserved ${match.quantity} for trade ${tradeId} (${match.makerOrderId} x ${match.takerOrderId})`);
+      return reservation;
     });
+  }
 
-    // Update order remaining
-    entry.order.remaining -= quantity;
+  /**
+   * Turn a reservation into fills on both orders
+   */
+  commitMatch(tradeId: string): FillReservation {
+    return this.execute({ name: 'commitMatch', tradeId }, () => {
+      const reservation = this.requireReservation(tradeId);
+      this.reservations.delete(tradeId);
 
-    // Update order status
-    if (entry.order.remaining === 0n) {
-      entry.order.status = 'filled';
-      this.activeOrders.delete(orderId);
-      logger.success(`✓ Order ${orderId} fully filled`);
-    } else {
-      entry.order.status = 'partially_filled';
-      logger.info(`Order ${orderId} partially filled: ${entry.order.remaining} remaining`);
-    }
+      const { quantity, value } = reservation;
+      const timestamp = this.now();
+      const maker = this.orders.get(reservation.makerOrderId)!;
+      const taker = this.orders.get(reservation.takerOrderId)!;
+      this.settle(maker, { tradeId, quantity, value, timestamp, taker: reservation.takerAddress });
+      this.settle(taker, { tradeId, quantity, value, timestamp, taker: reservation.makerAddress });
+      this.emitOrderChange(maker);
+      this.emitOrderChange(taker);
+      this.emitChange({ type: 'unreserved', tradeId });
+
+      logger.success(`✓ Trade ${tradeId} committed: ${quantity}`);
+      return reservation;
+    });
+  }
+
+  /**
+   * Give a reservation back to both orders. Orders that are still live
+   * return to the book with their original time priority.
+   */
+  releaseMatch(tradeId: string, reason: string): FillReservation {
+    return this.execute({ name: 'releaseMatch', tradeId, reason }, () => {
+      const reservation = this.requireReservation(tradeId);
+      this.reservations.delete(tradeId);
+
+      this.unhold(this.orders.get(reservation.makerOrderId)!, reservation.quantity);
+      this.unhold(this.orders.get(reservation.takerOrderId)!, reservation.quantity);
+      this.emitChange({ type: 'unreserved', tradeId });
+
+      logger.warn(`Trade ${tradeId} released: ${reason}`);
+      return reservation;
+    });
+  }
+
+  getReservation(tradeId: string): FillReservation | undefined {
+    return this.reservations.get(tradeId);
+  }
+
+  /**
+   * Trades still waiting for their session, oldest first
+   */
+  getReservations(): FillReservation[] {
+    return Array.from(this.reservations.values());
+  }
 
-    entry.order.updatedAt = new Date().toISOString();
+  /**
+   * Amend a resting order
+   *
+   * - Same price and smaller size: reduced in place, keeps time priority
+   * - New price or larger size: cancel-replace, re-queued at the back of
+   *   its (new) price level with a fresh createdAt and sequence
+   *
+   * All checks run before the book is touched, so a rejected amendment
+   * leaves the order exactly as it was.
+   */
+  amendOrder(orderId: string, maker: string, amendment: OrderAmendment): AmendResult {
+    return this.execute({ name: 'amendOrder', orderId, maker, amendment: { ...amendment } }, () => {
+      const entry = this.orders.get(orderId);
+      if (!entry) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+
+      const current = entry.order;
+      if (current.maker.toLowerCase() !== maker.toLowerCase()) {
+        throw new Error('Only maker can amend order');
+      }
+      if (!this.activeOrders.has(orderId)) {
+        throw new Error(`Cannot amend ${current.status} order`);
+      }
+
+      const price = amendment.price ?? current.price;
+      const size = amendment.size ?? current.size;
+      const minFill = amendment.minFill ?? current.minFill;
+      const expiry = amendment.expiry ?? current.expiry;
+      const filled = current.size - current.remaining;
+
+      if (size <= filled) {
+        throw new Error(`New size ${size} must exceed filled quantity ${filled}`);
+      }
+      if (price <= 0n) {
+        throw new Error('Order price must be positive');
+      }
+      if (minFill > size) {
+        throw new Error('minFill cannot exceed order size');
+      }
+      this.validateExpiry(timeInForceOf(current), expiry);
+
+      const market = this.marketConfigs.require(current.baseToken, current.quoteToken);
+      const gridError = validateOrderGrid(market, { price, size, minFill });
+      if (gridError) {
+        throw new Error(gridError);
+      }
+      this.validateDisplaySize({ ...current, size, minFill }, market);
+
+      const placedPrice = this.applyPostOnly({ ...current, price }, market).price;
+      const priorityKept = placedPrice === current.price && size <= current.size;
+      const now = this.timestamp();
+      const amended: OrderRecord = {
+        ...current,
+        price: placedPrice,
+        size,
+        minFill,
+        expiry,
+        nonce: amendment.nonce ?? current.nonce,
+        signature: amendment.signature ?? current.signature,
+        remaining: size - filled,
+        createdAt: priorityKept ? current.createdAt : now,
+        updatedAt: now,
+      };
+
+      if (priorityKept) {
+        entry.order = amended;
+        if (entry.displayed !== undefined && entry.displayed > amended.remaining) {
+          entry.displayed = amended.remaining;
+        }
+      } else {
+        const book = this.getOrCreateMarket(current.baseToken, current.quoteToken);
+        book.remove(entry);
+        entry.order = amended;
+        entry.sequence = this.nextSequence++;
+        entry.displayed = this.sliceOf(amended);
+        book.add(entry);
+        this.emitLevelChange(current);
+      }
+      this.emitLevelChange(amended);
+      this.emitOrderChange(entry);
+
+      logger.info(
+        `Order ${orderId} amended (${priorityKept ? 'priority kept' : 'cancel-replaced'}): ` +
+          `price ${amended.price}, size ${amended.size}, remaining ${amended.remaining}`
+      );
+
+      return { order: amended, priorityKept };
+    });
   }
 
   /**
    * Cancel an order
    */
-  cancelOrder(orderId: string, maker: string): void {
-    const entry = this.orders.get(orderId);
-    if (!entry) {
-      throw new Error(`Order ${orderId} not found`);
-    }
+  cancelOrder(orderId: string, maker: string): OrderRecord {
+    return this.execute({ name: 'cancelOrder', orderId, maker }, () => {
+      const entry = this.orders.get(orderId);
+      if (!entry) {
+        throw new Error(`Order ${orderId} not found`);
+      }
 
-    if (entry.order.maker !== maker) {
-      throw new Error('Only maker can cancel order');
-    }
+      if (entry.order.maker.toLowerCase() !== maker.toLowerCase()) {
+        throw new Error('Only maker can cancel order');
+      }
 
-    if (entry.order.status === 'filled') {
-      throw new Error('Cannot cancel filled order');
-    }
+      if (entry.order.status === 'filled') {
+        throw new Error('Cannot cancel filled order');
+      }
+
+      if (entry.order.remaining === 0n && entry.reserved > 0n) {
+        throw new Error(`Order ${orderId} is fully reserved by pending trades`);
+      }
+
+      if (!this.activeOrders.has(orderId)) {
+        throw new Error(`Cannot cancel ${entry.order.status} order`);
+      }
+
+      this.close(entry, 'cancelled');
+
+      logger.warn(`Order ${orderId} cancelled by maker`);
+      return entry.order;
+    });
+  }
+
+  /**
+   * Cancel every active order of a maker, optionally in one market only.
+   * Returns the cancelled orders.
+   */
+  cancelAllOrders(maker: string, baseToken?: string, quoteToken?: string): OrderRecord[] {
+    return this.execute({ name: 'cancelAllOrders', maker, baseToken, quoteToken }, () => {
+      const scoped = baseToken !== undefined && quoteToken !== undefined;
+      const candidates = scoped
+        ? this.getOrdersByTokenPair(baseToken, quoteToken)
+        : this.getActiveOrders();
+
+      const cancelled = candidates
+        .filter(entry => entry.order.maker.toLowerCase() === maker.toLowerCase())
+        .map(entry => this.cancelOrder(entry.order.id, maker));
+
+      logger.warn(`Cancelled ${cancelled.length} order(s) for ${maker}${scoped ? ` in ${marketKey(baseToken, quoteToken)}` : ''}`);
+      return cancelled;
+    });
+  }
+
+  /**
+   * Cancel what is left of an active order on the book's own authority,
+   * e.g. the unfilled part of an IOC order
+   */
+  cancelRemainder(orderId: string, reason: string): OrderRecord {
+    return this.execute({ name: 'cancelRemainder', orderId, reason }, () => {
+      const entry = this.orders.get(orderId);
+      if (!entry) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      if (!this.activeOrders.has(orderId)) {
+        throw new Error(`Cannot cancel ${entry.order.status} order`);
+      }
+
+      this.close(entry, 'cancelled');
+
+      logger.warn(`Order ${orderId} cancelled: ${reason}`);
+      return entry.order;
+    });
+  }
+
+  /**
+   * Shrink an active order's size and remaining without a trade (self-trade
+   * prevention). Time priority is kept; an order left with nothing
+   * remaining is cancelled.
+   */
+  decrementOrder(orderId: string, quantity: bigint, reason: string): OrderRecord {
+    return this.execute({ name: 'decrementOrder', orderId, quantity, reason }, () => {
+      const entry = this.orders.get(orderId);
+      if (!entry) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      if (!this.activeOrders.has(orderId)) {
+        throw new Error(`Cannot decrement ${entry.order.status} order`);
+      }
+      if (quantity <= 0n || quantity > entry.order.remaining) {
+        throw new Error(`Cannot decrement ${orderId} by ${quantity} (remaining ${entry.order.remaining})`);
+      }
+
+      entry.order = {
+        ...entry.order,
+        size: entry.order.size - quantity,
+        remaining: entry.order.remaining - quantity,
+        updatedAt: this.timestamp(),
+      };
+      if (entry.displayed !== undefined && entry.displayed > entry.order.remaining) {
+        entry.displayed = entry.order.remaining;
+      }
+
+      if (entry.order.remaining === 0n) {
+        this.close(entry, 'cancelled');
+      } else {
+        this.emitLevelChange(entry.order);
+        this.emitOrderChange(entry);
+      }
+
+      logger.warn(`Order ${orderId} decremented by ${quantity}: ${reason}`);
+      return entry.order;
+    });
+  }
+
+  /**
+   * Active orders whose expiry (unix seconds) is at or before `nowMs`
+   */
+  getExpiredOrders(nowMs: number = this.now()): OrderBookEntry[] {
+    return this.getActiveOrders().filter(
+      entry => entry.order.expiry !== 0 && entry.order.expiry * 1000 <= nowMs
+    );
+  }
+
+  /**
+   * Take an order that reached its expiry off the book
+   */
+  expireOrder(orderId: string): OrderRecord {
+    return this.execute({ name: 'expireOrder', orderId }, () => {
+      const entry = this.orders.get(orderId);
+      if (!entry) {
+        throw new Error(`Order ${orderId} not found`);
+      }
+      if (!this.activeOrders.has(orderId)) {
+        throw new Error(`Cannot expire ${entry.order.status} order`);
+      }
 
-    entry.order.status = 'cancelled';
-    entry.order.updatedAt = new Date().toISOString();
-    this.activeOrders.delete(orderId);
+      this.close(entry, 'expired');
 
-    logger.warn(`Order ${orderId} cancelled by maker`);
+      logger.warn(`Order ${orderId} expired`);
+      return entry.order;
+    });
   }
 
   /**
-   * Get orderbook statistics
+   * Get orderbook statistics. Per-market quantities count the full
+   * remaining size, hidden iceberg reserve included.
    */
   getStats() {
     const allOrders = Array.from(this.orders.values());
     
     return {
+      markets: this.getMarkets().map(market => {
+        const entries = market.entries();
+        const resting = entries.reduce((sum, e) => sum + e.order.remaining, 0n);
+        const visible = entries.reduce((sum, e) => sum + visibleQuantity(e), 0n);
+        return {
+          baseToken: market.baseToken,
+          quoteToken: market.quoteToken,
+          orders: entries.length,
+          icebergOrders: entries.filter(e => e.displayed !== undefined).length,
+          restingQuantity: resting,
+          hiddenQuantity: resting - visible,
+        };
+      }),
       totalOrders: allOrders.length,
       activeOrders: this.activeOrders.size,
       filledOrders: allOrders.filter(e => e.order.status === 'filled').length,
       partiallyFilledOrders: allOrders.filter(e => e.order.status === 'partially_filled').length,
       cancelledOrders: allOrders.filter(e => e.order.status === 'cancelled').length,
+      expiredOrders: allOrders.filter(e => e.order.status === 'expired').length,
       totalFills: allOrders.reduce((sum, e) => sum + e.fills.length, 0),
+      pendingTrades: this.reservations.size,
     };
   }
 
+  /**
+   * Copy of the book's state for snapshots (see restore)
+   */
+  exportState(): OrderBookState {
+    return {
+      nextSequence: this.nextSequence,
+      nextTradeNumber: this.nextTradeNumber,
+      orders: Array.from(this.orders.values()).map(entry => ({
+        ...entry,
+        order: { ...entry.order },
+        fills: [...entry.fills],
+      })),
+      activeOrders: Array.from(this.activeOrders),
+      reservations: Array.from(this.reservations.values()),
+    };
+  }
+
+  /**
+   * Rebuild an empty book from exported or replayed state. Active orders
+   * that rest on the book are queued in their markets again; no events are
+   * emitted.
+   */
+  restore(state: OrderBookState): void {
+    if (this.orders.size > 0 || this.reservations.size > 0) {
+      throw new Error('Only an empty order book can be restored');
+    }
+
+    for (const entry of state.orders) {
+      this.orders.set(entry.order.id, entry);
+    }
+    for (const orderId of state.activeOrders) {
+      const entry = this.orders.get(orderId);
+      if (!entry) {
+        throw new Error(`Active order ${orderId} is not in the restored book`);
+      }
+      this.activeOrders.add(orderId);
+      if (restsOnBook(entry.order)) {
+        this.getOrCreateMarket(entry.order.baseToken, entry.order.quoteToken).add(entry);
+      }
+    }
+    for (const reservation of state.reservations) {
+      this.reservations.set(reservation.tradeId, reservation);
+    }
+    this.nextSequence = state.nextSequence;
+    this.nextTradeNumber = state.nextTradeNumber;
+
+    logger.info(
+      `Order book restored: ${this.orders.size} orders, ${this.activeOrders.size} active, ` +
+        `${this.reservations.size} reserved trades`
+    );
+  }
+
+  /**
+   * Check the invariants that tie orders, fills, reservations and market
+   * books together. Returns one message per violation, empty when the
+   * book is consistent.
+   */
+  verifyConsistency(): string[] {
+    const problems: string[] = [];
+
+    const reservedByOrder = new Map<string, bigint>();
+    for (const reservation of this.reservations.values()) {
+      for (const orderId of [reservation.makerOrderId, reservation.takerOrderId]) {
+        if (!this.orders.has(orderId)) {
+          problems.push(`Trade ${reservation.tradeId} reserves unknown order ${orderId}`);
+        }
+        reservedByOrder.set(orderId, (reservedByOrder.get(orderId) ?? 0n) + reservation.quantity);
+      }
+    }
+
+    const resting = new Set<string>();
+    for (const market of this.markets.values()) {
+      for (const entry of market.entries()) {
+        resting.add(entry.order.id);
+      }
+    }
+
+    for (const [orderId, entry] of this.orders) {
+      const { order } = entry;
+      const filled = entry.fills.reduce((sum, fill) => sum + fill.quantity, 0n);
+      const live = order.status === 'open' || order.status === 'partially_filled';
+      const active = this.activeOrders.has(orderId);
+
+      if (order.remaining < 0n || entry.reserved < 0n) {
+        problems.push(`Order ${orderId} has negative remaining or reserved quantity`);
+      }
+      if (order.remaining + entry.reserved + filled !== order.size) {
+        problems.push(
+          `Order ${orderId}: remaining ${order.remaining} + reserved ${entry.reserved} + filled ${filled} != size ${order.size}`
+        );
+      }
+      if (entry.reserved !== (reservedByOrder.get(orderId) ?? 0n)) {
+        problems.push(`Order ${orderId} holds ${entry.reserved} but its reservations add up to ${reservedByOrder.get(orderId) ?? 0n}`);
+      }
+      if (active && (!live || order.remaining === 0n)) {
+        problems.push(`Order ${orderId} is active but ${order.status} with ${order.remaining} remaining`);
+      }
+      if (!active && live && order.remaining > 0n) {
+        problems.push(`Order ${orderId} is ${order.status} with ${order.remaining} remaining but not active`);
+      }
+      if (resting.has(orderId) !== (active && restsOnBook(order))) {
+        problems.push(`Order ${orderId} is ${resting.has(orderId) ? '' : 'not '}on its market book`);
+      }
+      if (entry.sequence >= this.nextSequence) {
+        problems.push(`Order ${orderId} has sequence ${entry.sequence}, next is ${this.nextSequence}`);
+      }
+    }
+
+    for (const orderId of this.activeOrders) {
+      if (!this.orders.has(orderId)) {
+        problems.push(`Active order ${orderId} does not exist`);
+      }
+    }
+
+    return problems;
+  }
+
   /**
    * Find matching orders for a taker order
-   * Returns orders that can be filled at the taker's price or better
+   * Returns orders that can be filled at the taker's price or better,
+   * in price-time priority (best price first, then oldest first).
+   * `quantity` is what the taker still wants; makers whose own minFill or
+   * all-or-none terms rule out a fill of that size are skipped.
    */
   findMatchingOrders(
     side: OrderSide,
@@ -223,31 +902,366 @@ export class OrderBook {
     takerPrice: bigint,
     quantity: bigint
   ): OrderBookEntry[] {
-    const oppositeSide = side === 'buy' ? 'sell' : 'buy';
-    
-    return this.getOrdersByTokenPair(baseToken, quoteToken)
-      .filter(entry => {
-        if (entry.order.side !== oppositeSide) return false;
-        if (entry.order.remaining < quantity && entry.order.remaining < entry.order.minFill) return false;
-        
-        // Price matching logic:
-        // For taker buy order: maker sell price must be <= taker's willing price
-        // For taker sell order: maker buy price must be >= taker's willing price
-        if (side === 'buy') {
-          return entry.order.price <= takerPrice;
-        } else {
-          return entry.order.price >= takerPrice;
-        }
-      })
-      .sort((a, b) => {
-        // Sort by best price for taker
-        if (side === 'buy') {
-          // Buy side wants lowest sell prices first
-          return Number(a.order.price - b.order.price);
-        } else {
-          // Sell side wants highest buy prices first
-          return Number(b.order.price - a.order.price);
-        }
-      });
+    const market = this.getMarket(baseToken, quoteToken);
+    if (!market) {
+      return [];
+    }
+
+    const matches: OrderBookEntry[] = [];
+    for (const entry of market.crossingEntries(side, takerPrice)) {
+      const visible = visibleQuantity(entry);
+      const offered = quantity < visible ? quantity : visible;
+      if (offered <= 0n || computePartialFill(offered, entry.order.remaining, entry.order).executed === 0n) continue;
+      matches.push(entry);
+    }
+
+    return matches;
+  }
+
+  private getOrCreateMarket(baseToken: string, quoteToken: string): MarketBook {
+    const key = marketKey(baseToken, quoteToken);
+    let market = this.markets.get(key);
+    if (!market) {
+      market = new MarketBook(baseToken, quoteToken);
+      this.markets.set(key, market);
+    }
+    return market;
+  }
+
+  private removeFromMarket(entry: OrderBookEntry): void {
+    this.getMarket(entry.order.baseToken, entry.order.quoteToken)?.remove(entry);
+  }
+
+  /**
+   * Move an active order to a final status and off its market
+   */
+  private close(entry: OrderBookEntry, status: OrderStatus): void {
+    entry.order.status = status;
+    entry.order.updatedAt = this.timestamp();
+    this.activeOrders.delete(entry.order.id);
+    this.removeFromMarket(entry);
+    this.emitLevelChange(entry.order);
+    this.emitOrderChange(entry);
+  }
+
+  private requireFillable(orderId: string, quantity: bigint): OrderBookEntry {
+    const entry = this.orders.get(orderId);
+    if (!entry) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+
+    const validation = this.canFill(orderId, quantity);
+    if (!validation.canFill) {
+      throw new Error(`Cannot fill order ${orderId}: ${validation.reason}`);
+    }
+    return entry;
+  }
+
+  private requireReservation(tradeId: string): FillReservation {
+    const reservation = this.reservations.get(tradeId);
+    if (!reservation) {
+      throw new Error(`No reservation for trade ${tradeId}`);
+    }
+    return reservation;
+  }
+
+  /**
+   * Move quantity from remaining to reserved. An order with nothing left
+   * leaves the book; status only changes once the quantity is settled.
+   */
+  private hold(entry: OrderBookEntry, quantity: bigint): void {
+    entry.order.remaining -= quantity;
+    entry.reserved += quantity;
+    entry.order.updatedAt = this.timestamp();
+
+    if (entry.order.remaining === 0n) {
+      this.activeOrders.delete(entry.order.id);
+      this.removeFromMarket(entry);
+      return;
+    }
+
+    // An emptied slice is refilled, and so is one too small for the order's
+    // own minFill
+    if (entry.displayed !== undefined) {
+      entry.displayed = entry.displayed > quantity ? entry.displayed - quantity : 0n;
+      if (entry.displayed === 0n || entry.displayed < minimumExecution(entry.order.remaining, entry.order)) {
+        this.refillIceberg(entry);
+      }
+    }
+  }
+
+  /**
+   * Record held quantity as a fill and update the order's status
+   */
+  private settle(entry: OrderBookEntry, fill: OrderFill): void {
+    entry.reserved -= fill.quantity;
+    entry.fills.push(fill);
+    entry.order.updatedAt = this.timestamp();
+    this.emitChange({ type: 'fill', orderId: entry.order.id, fill });
+
+    // Cancelled or expired orders keep their status, the fill still counts
+    if (entry.order.status !== 'open' && entry.order.status !== 'partially_filled') {
+      return;
+    }
+
+    if (entry.order.remaining === 0n && entry.reserved === 0n) {
+      entry.order.status = 'filled';
+      logger.success(`✓ Order ${entry.order.id} fully filled`);
+    } else {
+      entry.order.status = 'partially_filled';
+      logger.info(`Order ${entry.order.id} partially filled: ${entry.order.remaining} remaining`);
+    }
+  }
+
+  /**
+   * Return held quantity to remaining, putting a live order back on the book
+   */
+  private unhold(entry: OrderBookEntry, quantity: bigint): void {
+    entry.reserved -= quantity;
+    entry.order.remaining += quantity;
+    entry.order.updatedAt = this.timestamp();
+
+    const live = entry.order.status === 'open' || entry.order.status === 'partially_filled';
+    if (live && !this.activeOrders.has(entry.order.id)) {
+      this.activeOrders.add(entry.order.id);
+      if (restsOnBook(entry.order)) {
+        this.getOrCreateMarket(entry.order.baseToken, entry.order.quoteToken).add(entry);
+      }
+    }
+
+    if (entry.displayed !== undefined) {
+      const slice = entry.displayed + quantity;
+      const limit = this.sliceOf(entry.order)!;
+      entry.displayed = slice < limit ? slice : limit;
+    }
+
+    this.emitLevelChange(entry.order);
+    this.emitOrderChange(entry);
+  }
+
+  /**
+   * Put a fresh slice of an iceberg order on display, at the back of its
+   * price level
+   */
+  private refillIceberg(entry: OrderBookEntry): void {
+    const book = this.getMarket(entry.order.baseToken, entry.order.quoteToken);
+    book?.remove(entry);
+    entry.order = { ...entry.order, createdAt: this.timestamp() };
+    entry.sequence = this.nextSequence++;
+    entry.displayed = this.sliceOf(entry.order);
+    book?.add(entry);
+
+    logger.info(
+      `Iceberg order ${entry.order.id} refilled: ${entry.displayed} shown, ` +
+        `${entry.order.remaining - entry.displayed!} hidden`
+    );
+  }
+
+  /**
+   * Visible slice for a newly placed or refilled order (undefined unless
+   * it is an iceberg)
+   */
+  private sliceOf(order: OrderRecord): bigint | undefined {
+    if (!isIceberg(order)) return undefined;
+    return order.displaySize! < order.remaining ? order.displaySize! : order.remaining;
+  }
+
+  /**
+   * displaySize must be on the lot grid, below the order size, at least
+   * minFill (or the order could never fill) and only on resting orders
+   */
+  private validateDisplaySize(
+    order: Pick<OrderRecord, 'displaySize' | 'size' | 'minFill' | 'allOrNone' | 'timeInForce' | 'orderType'>,
+    market: MarketConfig
+  ): void {
+    const { displaySize } = order;
+    if (displaySize === undefined || displaySize === 0n) return;
+
+    if (displaySize < 0n) {
+      throw new Error('displaySize must not be negative');
+    }
+    if (!restsOnBook(order)) {
+      throw new Error('Iceberg orders must be able to rest on the book');
+    }
+    if (order.allOrNone) {
+      throw new Error('Iceberg orders cannot be all-or-none');
+    }
+    if (displaySize >= order.size) {
+      throw new Error(`displaySize ${displaySize} must be below order size ${order.size}`);
+    }
+    if (displaySize < order.minFill) {
+      throw new Error(`displaySize ${displaySize} below minFill ${order.minFill}`);
+    }
+    if (displaySize % market.lotSize !== 0n) {
+      throw new Error(`displaySize ${displaySize} is not a multiple of lot size ${market.lotSize}`);
+    }
+  }
+
+  /**
+   * GTC orders never expire (expiry 0), GTD orders need a future expiry and
+   * the rest accept either
+   */
+  private validateExpiry(timeInForce: TimeInForce, expiry: number): void {
+    if (timeInForce === 'GTC') {
+      if (expiry !== 0) {
+        throw new Error('GTC orders must not set an expiry');
+      }
+      return;
+    }
+    if (timeInForce === 'GTD' && expiry === 0) {
+      throw new Error('GTD orders need an expiry');
+    }
+    if (expiry !== 0 && expiry < this.now() / 1000) {
+      throw new Error('Order expiry must be in the future');
+    }
+  }
+
+  /**
+   * Settle the worst price a market order may trade at: the signed `price`,
+   * `maxSlippageBps` away from the opposite best price (rounded onto the
+   * tick grid), or the tighter of the two when both are given
+   */
+  private resolveMarketPrice(order: OrderRecord): OrderRecord {
+    const orderType = orderTypeOf(order);
+    const slippageBps = order.maxSlippageBps ?? 0;
+
+    if (orderType !== 'limit' && orderType !== 'market') {
+      throw new Error(`Unsupported orderType: ${orderType}`);
+    }
+    if (orderType === 'limit') {
+      if (slippageBps !== 0) {
+        throw new Error('maxSlippageBps only applies to market orders');
+      }
+      return order;
+    }
+
+    const timeInForce = timeInForceOf(order);
+    if (timeInForce !== 'IOC' && timeInForce !== 'FOK') {
+      throw new Error('Market orders must be IOC or FOK');
+    }
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > MAX_SLIPPAGE_BPS) {
+      throw new Error(`maxSlippageBps must be an integer from 0 to ${MAX_SLIPPAGE_BPS}`);
+    }
+    if (slippageBps === 0) {
+      if (order.price <= 0n) {
+        throw new Error('Market orders need a worst price or maxSlippageBps');
+      }
+      return order;
+    }
+
+    const { tickSize } = this.marketConfigs.require(order.baseToken, order.quoteToken);
+    const best = order.side === 'buy'
+      ? this.getBestAsk(order.baseToken, order.quoteToken)
+      : this.getBestBid(order.baseToken, order.quoteToken);
+    if (best === undefined) {
+      throw new Error(`No ${order.side === 'buy' ? 'asks' : 'bids'} to price market order against`);
+    }
+
+    const bps = BigInt(slippageBps);
+    const scale = BigInt(MAX_SLIPPAGE_BPS);
+    let price: bigint;
+    if (order.side === 'buy') {
+      const limit = (best * (scale + bps)) / scale;
+      price = limit - (limit % tickSize);
+      if (order.price > 0n && order.price < price) price = order.price;
+    } else {
+      const limit = (best * (scale - bps) + scale - 1n) / scale;
+      price = ((limit + tickSize - 1n) / tickSize) * tickSize;
+      if (order.price > price) price = order.price;
+    }
+
+    logger.info(`Market order ${order.id} limited to ${price} (best ${best}, ${slippageBps} bps)`);
+    return { ...order, price };
+  }
+
+  /**
+   * Keep post-only orders from taking liquidity: POST_ONLY orders that
+   * would cross are rejected, POST_ONLY_SLIDE orders are moved one tick
+   * behind the opposite best price
+   */
+  private applyPostOnly(order: OrderRecord, market: MarketConfig): OrderRecord {
+    if (!isPostOnly(order)) {
+      return order;
+    }
+
+    const opposite = order.side === 'buy'
+      ? this.getBestAsk(order.baseToken, order.quoteToken)
+      : this.getBestBid(order.baseToken, order.quoteToken);
+    const crosses = opposite !== undefined &&
+      (order.side === 'buy' ? order.price >= opposite : order.price <= opposite);
+    if (!crosses) {
+      return order;
+    }
+
+    if (timeInForceOf(order) === 'POST_ONLY') {
+      throw new Error(`Post-only order would cross the book at ${opposite}`);
+    }
+
+    const price = order.side === 'buy' ? opposite - market.tickSize : opposite + market.tickSize;
+    if (price <= 0n) {
+      throw new Error('Post-only order cannot be repriced below one tick');
+    }
+
+    logger.info(`Post-only order ${order.id} repriced from ${order.price} to ${price}`);
+    return { ...order, price };
+  }
+
+  /**
+   * Run a mutating method as a command: announce it, pin the book time for
+   * its duration and report it as rejected if it throws
+   */
+  private execute<T>(command: OrderBookCommand, run: () => T): T {
+    if (this.commandTime !== undefined) {
+      return run();
+    }
+
+    this.commandTime = this.clock();
+    const issued: IssuedCommand = { at: this.commandTime, command };
+    this.emit('command', issued);
+    try {
+      return run();
+    } catch (error) {
+      this.emit('rejected', error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      this.commandTime = undefined;
+    }
+  }
+
+  private timestamp(): string {
+    return new Date(this.now()).toISOString();
+  }
+
+  private emitOrderChange(entry: OrderBookEntry): void {
+    this.emitChange({
+      type: 'order',
+      order: { ...entry.order },
+      sequence: entry.sequence,
+      displayed: entry.displayed,
+      reserved: entry.reserved,
+      active: this.activeOrders.has(entry.order.id),
+    });
+  }
+
+  private emitChange(change: OrderBookChange): void {
+    this.emit('change', change);
+  }
+
+  private emitLevelChange(order: OrderRecord): void {
+    if (!restsOnBook(order)) return;
+
+    const market = this.getMarket(order.baseToken, order.quoteToken);
+    if (!market) return;
+
+    const level = market.levelSummary(order.side, order.price);
+    const change: LevelChange = {
+      baseToken: market.baseToken,
+      quoteToken: market.quoteToken,
+      side: order.side,
+      price: level.price,
+      quantity: level.quantity,
+      orders: level.orders,
+    };
+    this.emit('level', change);
   }
 }
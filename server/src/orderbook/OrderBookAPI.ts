@@ -8,21 +8,22 @@
  */
 
 import { OrderBook } from './OrderBook';
-import { generateTradeSessionMessage } from '../nitrolite/create-session';
+import { OrderVerifier } from './OrderVerifier';
+import { publicOrderView, visibleQuantity } from './MarketBook';
 import type { OrderRecord } from '@shared/types/order';
-import type { NitroliteClient } from '../nitrolite/client';
-import { logger } from '../nitrolite/utils/logger';
 
 export class OrderBookAPI {
   constructor(
     private orderBook: OrderBook,
-    private nitroliteClient: NitroliteClient
+    private verifier: OrderVerifier = new OrderVerifier()
   ) {}
 
   /**
-   * POST /orders - Create a new limit order
+   * POST /orders - Create a new limit order (must be EIP-712 signed by its maker)
    */
   async createOrder(orderData: Omit<OrderRecord, 'status' | 'remaining' | 'createdAt' | 'updatedAt'>): Promise<OrderRecord> {
+    this.verifier.verify(orderData);
+
     const order: OrderRecord = {
       ...orderData,
       status: 'open',
@@ -31,13 +32,15 @@ export class OrderBookAPI {
       updatedAt: new Date().toISOString(),
     };
 
-    this.orderBook.createOrder(order);
+    const placed = this.orderBook.createOrder(order);
+    this.verifier.markUsed(placed.maker, placed.nonce);
     
-    return order;
+    return placed;
   }
 
   /**
-   * GET /orders - Get all active orders
+   * GET /orders - Get all active orders. Anyone can query any maker, so
+   * iceberg orders are shown as publicOrderView.
    */
   getOrders(filters?: {
     side?: 'buy' | 'sell';
@@ -45,32 +48,27 @@ export class OrderBookAPI {
     quoteToken?: string;
     maker?: string;
   }) {
-    let orders = this.orderBook.getActiveOrders();
+    let orders =
+      filters?.baseToken && filters?.quoteToken
+        ? this.orderBook.getOrdersByTokenPair(filters.baseToken, filters.quoteToken)
+        : this.orderBook.getActiveOrders();
 
     if (filters?.side) {
       orders = orders.filter(e => e.order.side === filters.side);
     }
 
-    if (filters?.baseToken && filters?.quoteToken) {
-      orders = orders.filter(
-        e =>
-          e.order.baseToken.toLowerCase() === filters.baseToken!.toLowerCase() &&
-          e.order.quoteToken.toLowerCase() === filters.quoteToken!.toLowerCase()
-      );
-    }
-
     if (filters?.maker) {
       orders = orders.filter(e => e.order.maker.toLowerCase() === filters.maker!.toLowerCase());
     }
 
     return orders.map(e => ({
-      order: e.order,
+      order: publicOrderView(e),
       fills: e.fills,
     }));
   }
 
   /**
-   * GET /orders/:orderId - Get specific order
+   * GET /orders/:orderId - Get specific order (publicOrderView)
    */
   getOrderById(orderId: string) {
     const entry = this.orderBook.getOrder(orderId);
@@ -79,64 +77,23 @@ export class OrderBookAPI {
     }
 
     return {
-      order: entry.order,
+      order: publicOrderView(entry),
       fills: entry.fills,
     };
   }
 
   /**
-   * POST /orders/:orderId/fill - Fill an order (creates trade session)
-   */
-  async fillOrder(
-    orderId: string,
-    taker: string,
-    quantity: bigint
-  ): Promise<{ tradeId: string; sessionData: any }> {
-    const entry = this.orderBook.getOrder(orderId);
-    if (!entry) {
-      throw new Error('Order not found');
-    }
-
-    // Validate fill
-    const validation = this.orderBook.canFill(orderId, quantity);
-    if (!validation.canFill) {
-      throw new Error(validation.reason);
-    }
-
-    // Generate trade session
-    const tradeId = `trade-${orderId}-${Date.now()}`;
-    const sessionData = await generateTradeSessionMessage(
-      tradeId,
-      entry.order,
-      entry.order.maker as `0x${string}`,
-      taker as `0x${string}`,
-      quantity,
-      this.nitroliteClient
-    );
-
-    logger.success(`✓ Trade session created: ${tradeId}`);
-    logger.data('Fill Details', {
-      orderId,
-      quantity: quantity.toString(),
-      remaining: (entry.order.remaining - quantity).toString(),
-    });
-
-    return {
-      tradeId,
-      sessionData,
-    };
-  }
-
-  /**
-   * DELETE /orders/:orderId - Cancel an order
+   * DELETE /orders/:orderId - Cancel an order. `order` is the maker's
+   * unmasked view, for the maker's own feed.
    */
   cancelOrder(orderId: string, maker: string) {
-    this.orderBook.cancelOrder(orderId, maker);
+    const order = this.orderBook.cancelOrder(orderId, maker);
     
     return {
       success: true,
       orderId,
       status: 'cancelled',
+      order,
     };
   }
 
@@ -169,7 +126,7 @@ export class OrderBookAPI {
       orderId: e.order.id,
       maker: e.order.maker,
       price: e.order.price.toString(),
-      available: e.order.remaining.toString(),
+      available: visibleQuantity(e).toString(),
       minFill: e.order.minFill.toString(),
     }));
   }
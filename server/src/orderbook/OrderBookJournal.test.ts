@@ -0,0 +1,83 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { encodeJson } from '../lib/json-codec';
+import { setLoggerSilenced } from '../nitrolite/utils/logger';
+import { FileOrderBookStore } from './FileOrderBookStore';
+import { OrderBook } from './OrderBook';
+import { OrderBookJournal } from './OrderBookJournal';
+import { normalizeState } from './OrderBookReplay';
+import type { OrderBookStore } from './OrderBookStore';
+import type { OrderMatcher } from './OrderMatcher';
+import { OrderVerifier } from './OrderVerifier';
+import { ALICE, createMatcher, runTradingSession } from './test-fixtures';
+
+describe('OrderBookJournal', () => {
+  let dir: string;
+  const matchers: OrderMatcher[] = [];
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'orderbook-journal-'));
+  });
+
+  afterEach(() => {
+    matchers.splice(0).forEach(matcher => matcher.close());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function open(store: OrderBookStore, snapshotEvery?: number) {
+    const book = new OrderBook();
+    const matcher = createMatcher(book);
+    matchers.push(matcher);
+    const verifier = new OrderVerifier();
+    const journal = new OrderBookJournal(store, book, matcher, { snapshotEvery, verifier });
+    return { book, matcher, verifier, journal };
+  }
+
+  // Record a session on a fresh store, then recover it into a second book
+  async function recordAndRecover(snapshotEvery?: number) {
+    const live = open(new FileOrderBookStore(dir), snapshotEvery);
+    live.journal.recover();
+    live.journal.start();
+    await runTradingSession(live.book, live.matcher);
+    live.verifier.markUsed(ALICE, 'used-elsewhere');
+    live.journal.stop();
+
+    const recovered = open(new FileOrderBookStore(dir), snapshotEvery);
+    const recovery = recovered.journal.recover();
+    return { live, recovered, recovery };
+  }
+
+  function expectSameState(a: { book: OrderBook; matcher: OrderMatcher }, b: { book: OrderBook; matcher: OrderMatcher }) {
+    expect(encodeJson(normalizeState(b.book.exportState()))).toBe(encodeJson(normalizeState(a.book.exportState())));
+    expect(encodeJson(b.matcher.getFills())).toBe(encodeJson(a.matcher.getFills()));
+    expect(b.book.verifyConsistency()).toEqual([]);
+  }
+
+  it('recovers the live book from the log alone', async () => {
+    const { live, recovered, recovery } = await recordAndRecover();
+
+    expect(recovery.snapshotSeq).toBe(0);
+    expect(recovery.reservations).toBe(1);
+    expectSameState(live, recovered);
+  });
+
+  it('recovers the live book from a snapshot and the records after it', async () => {
+    const { live, recovered, recovery } = await recordAndRecover(5);
+
+    expect(recovery.snapshotSeq).toBeGreaterThan(0);
+    expectSameState(live, recovered);
+  });
+
+  it('restores used nonces', async () => {
+    const { recovered } = await recordAndRecover(5);
+
+    expect(recovered.verifier.isNonceUsed(ALICE, 'used-elsewhere')).toBe(true);
+    for (const entry of recovered.book.exportState().orders) {
+      expect(recovered.verifier.isNonceUsed(entry.order.maker, entry.order.nonce)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { encodeJson } from '../lib/json-codec';
+import { setLoggerSilenced } from '../nitrolite/utils/logger';
+import { OrderBook } from './OrderBook';
+import { OrderBookJournal } from './OrderBookJournal';
+import type { NitroliteClient } from '../nitrolite/client';
+import { InMemoryTradeSessionStore } from '../nitrolite/session-storage';
+import { normalizeState, replayCommands, replayMatching } from './OrderBookReplay';
+import { InMemoryOrderBookStore, replayJournal, type JournalRecord } from './OrderBookStore';
+import { OrderMatcher } from './OrderMatcher';
+import { ALICE, BOB, createMatcher, makeOrder, runTradingSession } from './test-fixtures';
+
+describe('replayCommands', () => {
+  let matcher: OrderMatcher | undefined;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  afterEach(() => {
+    matcher?.close();
+    matcher = undefined;
+  });
+
+  async function recordSession(): Promise<{ book: OrderBook; records: JournalRecord[] }> {
+    const store = new InMemoryOrderBookStore();
+    const book = new OrderBook();
+    matcher = createMatcher(book);
+    const journal = new OrderBookJournal(store, book, matcher);
+    journal.start();
+    await runTradingSession(book, matcher);
+    journal.stop();
+    return { book, records: store.readEvents(0) };
+  }
+
+  it('reports no divergence on a recorded session', async () => {
+    const { book, records } = await recordSession();
+    const replay = replayCommands(records);
+
+    expect(replay.divergences).toEqual([]);
+    expect(replay.steps.length).toBe(records.filter(record => record.type === 'command').length);
+    expect(encodeJson(normalizeState(replay.book.exportState()))).toBe(encodeJson(normalizeState(book.exportState())));
+    expect(encodeJson(normalizeState(replayJournal(undefined, records).book))).toBe(
+      encodeJson(normalizeState(book.exportState()))
+    );
+  });
+
+  it('reports a recorded change the command does not reproduce', async () => {
+    const { records } = await recordSession();
+    const tampered = records.map(record =>
+      record.type === 'reserved'
+        ? { ...record, reservation: { ...record.reservation, quantity: record.reservation.quantity + 1n } }
+        : record
+    );
+
+    const replay = replayCommands(tampered);
+    const reservedSeqs = records.filter(record => record.type === 'reserved').map(record => record.seq);
+
+    expect(replay.divergences.length).toBe(reservedSeqs.length);
+    expect(replay.divergences.every(divergence => divergence.command === 'reserveMatch')).toBe(true);
+  });
+
+  it('stops at --until', async () => {
+    const { records } = await recordSession();
+    const firstCommands = records.filter(record => record.type === 'command').slice(0, 2);
+
+    const replay = replayCommands(records, { untilSeq: firstCommands[1].seq });
+
+    expect(replay.steps.map(step => step.seq)).toEqual(firstCommands.map(record => record.seq));
+    expect(replay.divergences).toEqual([]);
+  });
+});
+
+describe('replayMatching', () => {
+  let matcher: OrderMatcher | undefined;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  afterEach(() => {
+    matcher?.close();
+    matcher = undefined;
+  });
+
+  async function record(
+    session: (book: OrderBook, matcher: OrderMatcher) => Promise<void>,
+    matcherFor: (book: OrderBook) => OrderMatcher = createMatcher
+  ) {
+    const store = new InMemoryOrderBookStore();
+    const book = new OrderBook();
+    matcher = matcherFor(book);
+    const journal = new OrderBookJournal(store, book, matcher);
+    journal.start();
+    await session(book, matcher);
+    journal.stop();
+    return store.readEvents(0);
+  }
+
+  it('re-derives the reservations of a recorded session', async () => {
+    const records = await record(runTradingSession);
+    const replay = await replayMatching(records);
+
+    expect(replay.divergences).toEqual([]);
+    // Every order placed, plus the cancel-replacing amend of ask-2
+    expect(replay.passes.map(pass => pass.orderId)).toEqual(['ask-1', 'ask-2', 'bid-1', 'bid-2', 'ask-2', 'bid-3']);
+    expect(replay.passes.flatMap(pass => pass.replayed).length).toBe(3);
+  });
+
+  it('fails the sessions that failed when recorded', async () => {
+    const offline = { isConnected: false } as unknown as NitroliteClient;
+    const records = await record(async (book, matcher) => {
+      book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+      await matcher.onNewOrder(book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', timeInForce: 'IOC' })));
+    }, book => new OrderMatcher(book, offline, new InMemoryTradeSessionStore()));
+
+    const replay = await replayMatching(records);
+
+    expect(replay.divergences).toEqual([]);
+    expect(replay.passes.find(pass => pass.orderId === 'bid')!.replayed.length).toBe(1);
+  });
+
+  it('reports a recorded reservation the matcher does not make', async () => {
+    const records = await record(runTradingSession);
+    const tampered = records.map(record =>
+      record.type === 'reserved' && record.reservation.takerOrderId === 'bid-1'
+        ? { ...record, reservation: { ...record.reservation, makerOrderId: 'ask-2' } }
+        : record
+    );
+
+    const replay = await replayMatching(tampered);
+
+    expect(replay.divergences.map(divergence => divergence.command)).toEqual(['createOrder']);
+    expect(replay.divergences[0].message).toMatch(/reservation 1 for bid-1 differs/);
+  });
+});
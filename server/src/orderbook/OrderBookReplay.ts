@@ -0,0 +1,376 @@
+/**
+ * ============================================================================
+ * ORDER BOOK COMMAND REPLAY
+ * ============================================================================
+ *
+ * Re-executes the commands of an order book journal on a fresh book and
+ * checks that they have the same effects as recorded
+ *
+ * HOW IT WORKS:
+ * - Records are grouped by command: a `command` record, the changes it
+ *   caused and `rejected` if it threw (`trade`, `nonce` and `trigger*`
+ *   records come from the matcher, verifier and TriggerBook and are
+ *   skipped)
+ * - Each command runs with the book clock pinned to its recorded `at`, so
+ *   timestamps, expiry checks and trade ids come out the same
+ * - A divergence is any command whose changes or rejection differ from the
+ *   recorded ones
+ *
+ * MATCHING (replayMatching):
+ * - replayCommands re-runs the matcher's commands (reserveMatch,
+ *   releaseMatch, decrementOrder, cancelRemainder) as recorded;
+ *   replayMatching re-derives the reservations instead
+ * - After every createOrder and cancel-replacing amendOrder, OrderMatcher
+ *   runs over a copy of the book with a stub session generator. Sessions
+ *   recorded as failed (released with SESSION_GENERATION_FAILED) fail again.
+ * - Its reservations are compared with the ones recorded for that taker
+ *   until it was next placed or amended; a mismatch is a divergence
+ * - The copy only sees the book as of the command, so a pass that was
+ *   queued behind another, or raced a cancel while a session was built,
+ *   can diverge. Account self-trade prevention modes are not journaled;
+ *   pass the live default as `selfTradePrevention`.
+ *
+ * The replay starts from an empty book, so it needs the journal from its
+ * first record (see FileOrderBookStore.journalFiles).
+ * ============================================================================
+ */
+
+import { encodeJson } from '../lib/json-codec';
+import type { MarketRegistry } from '@shared/markets/registry';
+import type { SelfTradePrevention } from '@shared/types/order';
+import type { NitroliteClient } from '../nitrolite/client';
+import { InMemoryTradeSessionStore } from '../nitrolite/session-storage';
+import {
+  OrderBook,
+  type FillReservation,
+  type MatchToReserve,
+  type OrderBookChange,
+  type OrderBookCommand,
+  type OrderBookState,
+} from './OrderBook';
+import type { JournalRecord } from './OrderBookStore';
+import { OrderMatcher, SESSION_GENERATION_FAILED, type TradeSessionGenerator } from './OrderMatcher';
+
+export interface ReplayStep {
+  seq: number; // Of the command record
+  at: number;
+  command: OrderBookCommand;
+  recorded: OrderBookChange[];
+  recordedRejection?: string;
+  replayed: OrderBookChange[];
+  rejection?: string;
+}
+
+export interface ReplayDivergence {
+  seq: number;
+  command: OrderBookCommand['name'];
+  message: string;
+}
+
+export interface CommandReplay {
+  book: OrderBook;
+  steps: ReplayStep[];
+  divergences: ReplayDivergence[];
+  lastSeq: number;
+}
+
+export interface CommandReplayOptions {
+  readonly untilSeq?: number; // Stop after the command at or before this record
+  readonly marketConfigs?: MarketRegistry;
+}
+
+export interface MatchingReplayOptions extends CommandReplayOptions {
+  readonly selfTradePrevention?: SelfTradePrevention; // Live matcher's default
+}
+
+/**
+ * One matcher pass: the reservations it made and the recorded ones
+ */
+export interface MatchingPass {
+  seq: number; // Of the createOrder or amendOrder record
+  orderId: string;
+  recorded: MatchToReserve[];
+  replayed: MatchToReserve[];
+}
+
+export interface MatchingReplay {
+  passes: MatchingPass[];
+  divergences: ReplayDivergence[];
+}
+
+/**
+ * Call the book method a command was recorded from
+ */
+export function applyCommand(book: OrderBook, command: OrderBookCommand): void {
+  switch (command.name) {
+    case 'createOrder':
+      book.createOrder({ ...command.order });
+      break;
+    case 'amendOrder':
+      book.amendOrder(command.orderId, command.maker, command.amendment);
+      break;
+    case 'cancelOrder':
+      book.cancelOrder(command.orderId, command.maker);
+      break;
+    case 'cancelAllOrders':
+      book.cancelAllOrders(command.maker, command.baseToken, command.quoteToken);
+      break;
+    case 'cancelRemainder':
+      book.cancelRemainder(command.orderId, command.reason);
+      break;
+    case 'decrementOrder':
+      book.decrementOrder(command.orderId, command.quantity, command.reason);
+      break;
+    case 'expireOrder':
+      book.expireOrder(command.orderId);
+      break;
+    case 'recordFill':
+      book.recordFill(command.orderId, command.tradeId, command.quantity, command.value, command.taker);
+      break;
+    case 'reserveMatch':
+      book.reserveMatch(command.match);
+      break;
+    case 'commitMatch':
+      book.commitMatch(command.tradeId);
+      break;
+    case 'releaseMatch':
+      book.releaseMatch(command.tradeId, command.reason);
+      break;
+  }
+}
+
+export function replayCommands(records: JournalRecord[], options: CommandReplayOptions = {}): CommandReplay {
+  let clock = 0;
+  const book = new OrderBook(options.marketConfigs, { now: () => clock });
+  const replayed: OrderBookChange[] = [];
+  book.on('change', (change: OrderBookChange) => replayed.push(change));
+
+  const steps: ReplayStep[] = [];
+  const divergences: ReplayDivergence[] = [];
+  let lastSeq = 0;
+
+  for (const group of groupByCommand(records)) {
+    if (options.untilSeq !== undefined && group.seq > options.untilSeq) break;
+
+    clock = group.at;
+    replayed.length = 0;
+    let rejection: string | undefined;
+    try {
+      applyCommand(book, group.command);
+    } catch (error) {
+      rejection = error instanceof Error ? error.message : String(error);
+    }
+
+    const step: ReplayStep = { ...group, replayed: [...replayed], rejection };
+    steps.push(step);
+    lastSeq = group.lastSeq;
+
+    const message = compareStep(step);
+    if (message) {
+      divergences.push({ seq: step.seq, command: step.command.name, message });
+    }
+  }
+
+  return { book, steps, divergences, lastSeq };
+}
+
+/**
+ * Re-derive the matcher's reservations from the order commands and compare
+ * them with the recorded ones (see MATCHING above)
+ */
+export async function replayMatching(
+  records: JournalRecord[],
+  options: MatchingReplayOptions = {}
+): Promise<MatchingReplay> {
+  const groups = groupByCommand(records);
+  const failedSessions = new Set(
+    groups.flatMap(group =>
+      group.command.name === 'releaseMatch' && group.command.reason === SESSION_GENERATION_FAILED
+        ? [group.command.tradeId]
+        : []
+    )
+  );
+
+  let clock = 0;
+  const book = new OrderBook(options.marketConfigs, { now: () => clock });
+  const passes: MatchingPass[] = [];
+  const divergences: ReplayDivergence[] = [];
+
+  for (const [index, group] of groups.entries()) {
+    if (options.untilSeq !== undefined && group.seq > options.untilSeq) break;
+
+    clock = group.at;
+    let taker: string | undefined;
+    try {
+      const { command } = group;
+      if (command.name === 'createOrder') {
+        taker = book.createOrder({ ...command.order }).id;
+      } else if (command.name === 'amendOrder') {
+        const { order, priorityKept } = book.amendOrder(command.orderId, command.maker, command.amendment);
+        taker = priorityKept ? undefined : order.id;
+      } else {
+        applyCommand(book, command);
+      }
+    } catch {
+      continue; // replayCommands reports rejections
+    }
+    if (taker === undefined) continue;
+
+    const pass: MatchingPass = {
+      seq: group.seq,
+      orderId: taker,
+      recorded: recordedReservations(groups, index, taker),
+      replayed: await matchOnCopy(book, taker, group.at, failedSessions, options),
+    };
+    passes.push(pass);
+
+    const message = compareReservations(pass);
+    if (message) {
+      divergences.push({ seq: pass.seq, command: group.command.name, message });
+    }
+  }
+
+  return { passes, divergences };
+}
+
+/**
+ * Order-independent form of a book state, for comparing two books
+ */
+export function normalizeState(state: OrderBookState): OrderBookState {
+  return {
+    ...state,
+    orders: [...state.orders].sort((a, b) => a.order.id.localeCompare(b.order.id)),
+    activeOrders: [...state.activeOrders].sort(),
+    reservations: [...state.reservations].sort((a, b) => a.tradeId.localeCompare(b.tradeId)),
+  };
+}
+
+interface CommandGroup {
+  seq: number;
+  lastSeq: number; // Last record belonging to the command
+  at: number;
+  command: OrderBookCommand;
+  recorded: OrderBookChange[];
+  recordedRejection?: string;
+}
+
+function groupByCommand(records: JournalRecord[]): CommandGroup[] {
+  const groups: CommandGroup[] = [];
+  let current: CommandGroup | undefined;
+
+  for (const record of records) {
+    switch (record.type) {
+      case 'command':
+        current = { seq: record.seq, lastSeq: record.seq, at: record.at, command: record.command, recorded: [] };
+        groups.push(current);
+        break;
+      case 'trade':
+      case 'nonce':
+      case 'triggerPlaced':
+      case 'triggerClosed':
+        break;
+      default: {
+        if (!current) {
+          throw new Error(`Journal record ${record.seq} (${record.type}) is not preceded by a command`);
+        }
+        current.lastSeq = record.seq;
+        if (record.type === 'rejected') {
+          current.recordedRejection = record.reason;
+        } else {
+          const { seq: _seq, ...change } = record;
+          current.recorded.push(change as OrderBookChange);
+        }
+      }
+    }
+  }
+
+  return groups;
+}
+
+// Run a matcher pass for `orderId` over a copy of the book; the book
+// itself goes on with the recorded commands
+async function matchOnCopy(
+  book: OrderBook,
+  orderId: string,
+  at: number,
+  failedSessions: Set<string>,
+  options: MatchingReplayOptions
+): Promise<MatchToReserve[]> {
+  const copy = new OrderBook(options.marketConfigs, { now: () => at });
+  copy.restore(book.exportState());
+
+  const reserved: MatchToReserve[] = [];
+  copy.on('change', (change: OrderBookChange) => {
+    if (change.type === 'reserved') reserved.push(matchOf(change.reservation));
+  });
+
+  const generateSession: TradeSessionGenerator = async (tradeId, _order, _maker, _taker, _quantity, _client, _sessions, session) => {
+    if (failedSessions.has(tradeId)) {
+      throw new Error(`Session for ${tradeId} failed when recorded`);
+    }
+    return { appSessionData: {}, appDefinition: { nonce: session.now?.() ?? at }, participants: [], requestToSign: [] };
+  };
+
+  // The stub generator never reaches ClearNode
+  const matcher = new OrderMatcher(copy, {} as NitroliteClient, new InMemoryTradeSessionStore(), {
+    selfTradePrevention: options.selfTradePrevention,
+    generateSession,
+  });
+  try {
+    await matcher.onNewOrder(copy.getOrder(orderId)!.order);
+  } finally {
+    matcher.close();
+  }
+  return reserved;
+}
+
+// Reservations recorded for `orderId` as taker after groups[index], up to
+// the next time it was placed or amended
+function recordedReservations(groups: CommandGroup[], index: number, orderId: string): MatchToReserve[] {
+  const reserved: MatchToReserve[] = [];
+  for (const group of groups.slice(index + 1)) {
+    const { command } = group;
+    if ((command.name === 'createOrder' && command.order.id === orderId) || (command.name === 'amendOrder' && command.orderId === orderId)) {
+      break;
+    }
+    for (const change of group.recorded) {
+      if (change.type === 'reserved' && change.reservation.takerOrderId === orderId) {
+        reserved.push(matchOf(change.reservation));
+      }
+    }
+  }
+  return reserved;
+}
+
+// Trade ids and times depend on what ran in between, so only the match counts
+function matchOf({ tradeId: _tradeId, createdAt: _createdAt, ...match }: FillReservation): MatchToReserve {
+  return match;
+}
+
+function compareReservations(pass: MatchingPass): string | undefined {
+  const count = Math.max(pass.recorded.length, pass.replayed.length);
+  for (let index = 0; index < count; index++) {
+    const recorded = pass.recorded[index] ? encodeJson(pass.recorded[index]) : 'nothing';
+    const replayed = pass.replayed[index] ? encodeJson(pass.replayed[index]) : 'nothing';
+    if (recorded !== replayed) {
+      return `reservation ${index + 1} for ${pass.orderId} differs:\n  recorded ${recorded}\n  replayed ${replayed}`;
+    }
+  }
+  return undefined;
+}
+
+function compareStep(step: ReplayStep): string | undefined {
+  if (step.rejection !== step.recordedRejection) {
+    return `rejection differs: recorded ${step.recordedRejection ?? 'none'}, replayed ${step.rejection ?? 'none'}`;
+  }
+
+  const count = Math.max(step.recorded.length, step.replayed.length);
+  for (let index = 0; index < count; index++) {
+    const recorded = step.recorded[index] ? encodeJson(step.recorded[index]) : 'nothing';
+    const replayed = step.replayed[index] ? encodeJson(step.replayed[index]) : 'nothing';
+    if (recorded !== replayed) {
+      return `change ${index + 1} differs:\n  recorded ${recorded}\n  replayed ${replayed}`;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,223 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ethers } from 'ethers';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TOKENS } from '@shared/markets/registry';
+import { ORDER_EIP712_DOMAIN, ORDER_EIP712_TYPES, toOrderTypedData, type OrderRecord } from '@shared/types/order';
+import { setLoggerSilenced } from '../nitrolite/utils/logger';
+import { OrderBook } from './OrderBook';
+import { OrderBookAPI } from './OrderBookAPI';
+import { OrderBookRouter, cancelOrderMessage } from './OrderBookRouter';
+import { ETH, PRICE } from './test-fixtures';
+
+const wallet = new ethers.Wallet(`0x${'01'.repeat(32)}`);
+const other = new ethers.Wallet(`0x${'02'.repeat(32)}`);
+
+let nonce = 0;
+
+// POST /orders body signed by `signer` for `maker`
+async function orderBody(overrides: Record<string, unknown> = {}, signer: ethers.Wallet = wallet) {
+  const fields = {
+    id: `order-${++nonce}`,
+    maker: wallet.address,
+    baseToken: TOKENS.ETH.address,
+    quoteToken: TOKENS.USDC.address,
+    side: 'sell' as const,
+    price: PRICE,
+    size: ETH,
+    minFill: 0n,
+    expiry: 0,
+    timeInForce: 'GTC' as const,
+    channelId: `0x${'ab'.repeat(32)}`,
+    nonce: `nonce-${nonce}`,
+    ...overrides,
+  };
+  const signature = await signer._signTypedData(ORDER_EIP712_DOMAIN, ORDER_EIP712_TYPES, toOrderTypedData(fields));
+  return JSON.parse(
+    JSON.stringify({ ...fields, signature }, (_key, value) => (typeof value === 'bigint' ? value.toString() : value))
+  );
+}
+
+describe('OrderBookRouter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let book: OrderBook;
+  let created: OrderRecord[];
+  let cancelled: OrderRecord[];
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(async () => {
+    book = new OrderBook();
+    created = [];
+    cancelled = [];
+    const router = new OrderBookRouter(new OrderBookAPI(book), {
+      onOrderCreated: (order) => void created.push(order),
+      onOrderCancelled: (order) => void cancelled.push(order),
+    });
+
+    server = createServer(async (req, res) => {
+      if (!(await router.handle(req, res))) {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function request(method: string, path: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    // Response bodies are untyped JSON
+    const json: any = await response.json().catch(() => undefined);
+    return { status: response.status, headers: response.headers, body: json };
+  }
+
+  describe('POST /orders', () => {
+    it('creates a signed order and returns bigint fields as strings', async () => {
+      const body = await orderBody();
+      const response = await request('POST', '/orders', body);
+
+      expect(response.status).toBe(201);
+      expect(response.body.order).toMatchObject({ id: body.id, status: 'open', size: ETH.toString(), remaining: ETH.toString() });
+      expect(created.map(order => order.id)).toEqual([body.id]);
+      expect(book.getOrder(body.id)!.order.price).toBe(PRICE);
+    });
+
+    it('rejects a missing or malformed field with 400', async () => {
+      const { price: _price, ...body } = await orderBody();
+
+      expect(await request('POST', '/orders', body)).toMatchObject({
+        status: 400,
+        body: { error: { code: 'invalid_request', message: 'price must be a non-negative integer string' } },
+      });
+      expect((await request('POST', '/orders', { ...body, price: '1.5' })).status).toBe(400);
+      expect((await request('POST', '/orders', { ...body, price: PRICE.toString(), timeInForce: 'DAY' })).body.error.message).toMatch(
+        /timeInForce must be one of/
+      );
+    });
+
+    it('rejects a body that is not a JSON object', async () => {
+      expect((await request('POST', '/orders', '{')).body.error.code).toBe('invalid_json');
+      expect((await request('POST', '/orders', '[]')).body.error.code).toBe('invalid_json');
+    });
+
+    it('answers 403 when the signature is not the maker’s', async () => {
+      const response = await request('POST', '/orders', await orderBody({}, other));
+
+      expect(response.status).toBe(403);
+      expect(response.body.error.code).toBe('forbidden');
+      expect(created).toEqual([]);
+    });
+
+    it('answers 409 when a signed order is replayed under a new id', async () => {
+      const body = await orderBody();
+      await request('POST', '/orders', body);
+
+      const response = await request('POST', '/orders', { ...body, id: 'replayed' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toMatch(/already used/);
+    });
+
+    it('answers 422 when the book rejects the order', async () => {
+      const response = await request('POST', '/orders', await orderBody({ price: PRICE + 1n }));
+
+      expect(response.status).toBe(422);
+      expect(response.body.error).toMatchObject({ code: 'rejected', message: expect.stringMatching(/tick size/) });
+    });
+  });
+
+  describe('GET /orders', () => {
+    it('lists active orders with filters and masks icebergs', async () => {
+      const ask = await orderBody({ size: 4n * ETH, displaySize: ETH });
+      const bid = await orderBody({ side: 'buy', price: PRICE - ETH });
+      await request('POST', '/orders', ask);
+      await request('POST', '/orders', bid);
+
+      const all = await request('GET', '/orders');
+      const sells = await request('GET', '/orders?side=sell');
+
+      expect(all.body.orders).toHaveLength(2);
+      expect(sells.body.orders.map((entry: { order: OrderRecord }) => entry.order.id)).toEqual([ask.id]);
+      expect(sells.body.orders[0].order).toMatchObject({ size: ETH.toString(), remaining: ETH.toString() });
+      expect(sells.body.orders[0].order.displaySize).toBeUndefined();
+      expect((await request('GET', '/orders?side=both')).status).toBe(400);
+    });
+
+    it('gets one order, or 404', async () => {
+      const body = await orderBody();
+      await request('POST', '/orders', body);
+
+      expect((await request('GET', `/orders/${body.id}`)).body.order.id).toBe(body.id);
+      expect(await request('GET', '/orders/missing')).toMatchObject({ status: 404, body: { error: { code: 'not_found' } } });
+    });
+  });
+
+  describe('DELETE /orders/:orderId', () => {
+    it('cancels an order with the maker’s signature', async () => {
+      const body = await orderBody();
+      await request('POST', '/orders', body);
+      const signature = await wallet.signMessage(cancelOrderMessage(body.id));
+
+      const response = await request('DELETE', `/orders/${body.id}`, { maker: wallet.address, signature });
+
+      expect(response).toMatchObject({ status: 200, body: { success: true, orderId: body.id, status: 'cancelled' } });
+      expect(cancelled.map(order => order.id)).toEqual([body.id]);
+      expect(book.getOrder(body.id)!.order.status).toBe('cancelled');
+    });
+
+    it('refuses a signature from anyone else', async () => {
+      const body = await orderBody();
+      await request('POST', '/orders', body);
+      const signature = await other.signMessage(cancelOrderMessage(body.id));
+
+      const response = await request('DELETE', `/orders/${body.id}`, { maker: wallet.address, signature });
+
+      expect(response.status).toBe(403);
+      expect(book.getOrder(body.id)!.order.status).toBe('open');
+    });
+
+    it('refuses a malformed signature', async () => {
+      const response = await request('DELETE', '/orders/any', { maker: wallet.address, signature: '0x1234' });
+
+      expect(response).toMatchObject({ status: 400, body: { error: { code: 'invalid_signature' } } });
+    });
+  });
+
+  describe('routing', () => {
+    it('answers 405 with Allow for a known path and another method', async () => {
+      const response = await request('PUT', '/orders');
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get('allow')).toBe('POST, GET');
+    });
+
+    it('falls through on paths it does not serve', async () => {
+      expect((await request('GET', '/fills')).status).toBe(404);
+      expect((await request('POST', '/orders/any/fill')).status).toBe(404);
+    });
+
+    it('finds matching makers for a taker', async () => {
+      const body = await orderBody();
+      await request('POST', '/orders', body);
+
+      const response = await request('POST', '/orderbook/match', {
+        side: 'buy',
+        baseToken: TOKENS.ETH.address,
+        quoteToken: TOKENS.USDC.address,
+        price: PRICE.toString(),
+        quantity: ETH.toString(),
+      });
+
+      expect(response.body.matches).toEqual([expect.objectContaining({ orderId: body.id, available: ETH.toString() })]);
+    });
+  });
+});
@@ -0,0 +1,403 @@
+/**
+ * ============================================================================
+ * ORDERBOOK HTTP ROUTER
+ * ============================================================================
+ *
+ * Serves the OrderBookAPI routes over plain HTTP (node:http, no framework)
+ *
+ * ROUTES:
+ * - POST   /orders                  Create a signed order (optional timeInForce, orderType,
+ *                                    maxSlippageBps, selfTradePrevention, displaySize,
+ *                                    allOrNone)
+ * - GET    /orders                  List active orders (side, baseToken, quoteToken, maker)
+ * - GET    /orders/:orderId         Get an order and its fills
+ * - DELETE /orders/:orderId         Cancel an order (maker signature required)
+ * - GET    /orderbook/stats         Orderbook statistics
+ * - POST   /orderbook/match         Find matching orders for a taker
+ *
+ * There is no fill route: takers fill by placing a signed order that
+ * crosses the book, so every trade goes through OrderMatcher.
+ *
+ * CONVENTIONS:
+ * - bigint fields travel as decimal strings, both ways
+ * - Errors are { error: { code, message } } with a matching status code
+ * ============================================================================
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { ethers } from 'ethers';
+import {
+  SELF_TRADE_PREVENTION_MODES,
+  TIME_IN_FORCE_VALUES,
+  type OrderRecord,
+  type OrderSide,
+  type OrderType,
+  type SelfTradePrevention,
+  type TimeInForce,
+} from '@shared/types/order';
+import type { OrderBookAPI } from './OrderBookAPI';
+import { logger } from '../nitrolite/utils/logger';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface OrderBookRouterOptions {
+  /** Called after an order was accepted through POST /orders */
+  onOrderCreated?: (order: OrderRecord) => void | Promise<void>;
+  /** Called after an order was cancelled through DELETE /orders/:orderId */
+  onOrderCancelled?: (order: OrderRecord) => void | Promise<void>;
+}
+
+type RouteParams = Record<string, string>;
+type RouteHandler = (req: IncomingMessage, params: RouteParams, url: URL) => Promise<{ status: number; body: unknown }>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Message a maker signs (personal_sign) to cancel an order over HTTP
+ */
+export function cancelOrderMessage(orderId: string): string {
+  return `Cancel order ${orderId}`;
+}
+
+export class OrderBookRouter {
+  private routes: Route[] = [];
+
+  constructor(
+    private api: OrderBookAPI,
+    private options: OrderBookRouterOptions = {}
+  ) {
+    this.add('POST', '/orders', (req) => this.createOrder(req));
+    this.add('GET', '/orders', async (_req, _params, url) => ({
+      status: 200,
+      body: { orders: this.api.getOrders(this.parseOrderFilters(url)) },
+    }));
+    this.add('GET', '/orders/:orderId', async (_req, { orderId }) => ({
+      status: 200,
+      body: this.api.getOrderById(orderId),
+    }));
+    this.add('DELETE', '/orders/:orderId', (req, params) => this.cancelOrder(req, params.orderId));
+    this.add('GET', '/orderbook/stats', async () => ({
+      status: 200,
+      body: this.api.getStats(),
+    }));
+    this.add('POST', '/orderbook/match', (req) => this.findMatches(req));
+  }
+
+  /**
+   * Request listener for http.createServer. Returns false when no route
+   * path matched so callers can fall through to other handlers.
+   */
+  handle = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const pathMatches = this.routes
+      .map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+      .filter((candidate) => candidate.match !== null);
+
+    if (pathMatches.length === 0) {
+      return false;
+    }
+
+    try {
+      const found = pathMatches.find((candidate) => candidate.route.method === req.method);
+      if (!found) {
+        const allowed = pathMatches.map((candidate) => candidate.route.method).join(', ');
+        res.setHeader('Allow', allowed);
+        throw new HttpError(405, 'method_not_allowed', `${req.method} not allowed on ${url.pathname}`);
+      }
+
+      const params: RouteParams = {};
+      found.route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(found.match![index + 1]);
+      });
+
+      const { status, body } = await found.route.handler(req, params, url);
+      this.send(res, status, body);
+    } catch (error) {
+      const httpError = this.toHttpError(error);
+      if (httpError.status >= 500) {
+        logger.error(`HTTP ${req.method} ${url.pathname} failed`, error);
+      }
+      this.send(res, httpError.status, {
+        error: { code: httpError.code, message: httpError.message },
+      });
+    }
+
+    return true;
+  };
+
+  // ========================================
+  // Route Handlers
+  // ========================================
+
+  private async createOrder(req: IncomingMessage) {
+    const body = await this.readBody(req);
+
+    const order = await this.api.createOrder({
+      id: this.requireString(body, 'id'),
+      maker: this.requireAddress(body, 'maker'),
+      baseToken: this.requireAddress(body, 'baseToken'),
+      quoteToken: this.requireAddress(body, 'quoteToken'),
+      side: this.requireSide(body),
+      price: this.requireBigInt(body, 'price'),
+      size: this.requireBigInt(body, 'size'),
+      minFill: this.requireBigInt(body, 'minFill'),
+      allOrNone: this.optionalBoolean(body, 'allOrNone'),
+      expiry: this.requireInteger(body, 'expiry'),
+      timeInForce: this.optionalTimeInForce(body),
+      orderType: this.optionalOrderType(body),
+      maxSlippageBps: this.optionalInteger(body, 'maxSlippageBps'),
+      selfTradePrevention: this.optionalSelfTradePrevention(body),
+      displaySize: this.optionalBigInt(body, 'displaySize'),
+      channelId: this.requireString(body, 'channelId'),
+      nonce: this.requireString(body, 'nonce'),
+      signature: this.requireString(body, 'signature'),
+    });
+
+    await this.options.onOrderCreated?.(order);
+
+    return { status: 201, body: { order } };
+  }
+
+  private async cancelOrder(req: IncomingMessage, orderId: string) {
+    const body = await this.readBody(req);
+    const maker = this.requireAddress(body, 'maker');
+    const signature = this.requireString(body, 'signature');
+
+    let signer: string;
+    try {
+      signer = ethers.utils.verifyMessage(cancelOrderMessage(orderId), signature);
+    } catch {
+      throw new HttpError(400, 'invalid_signature', 'Malformed signature');
+    }
+    if (signer.toLowerCase() !== maker.toLowerCase()) {
+      throw new HttpError(403, 'forbidden', 'Signature does not match maker');
+    }
+
+    const { order, ...result } = this.api.cancelOrder(orderId, maker);
+    await this.options.onOrderCancelled?.(order);
+
+    return { status: 200, body: result };
+  }
+
+  private async findMatches(req: IncomingMessage) {
+    const body = await this.readBody(req);
+    const matches = this.api.findMatches({
+      side: this.requireSide(body),
+      baseToken: this.requireAddress(body, 'baseToken'),
+      quoteToken: this.requireAddress(body, 'quoteToken'),
+      price: this.requireBigInt(body, 'price'),
+      quantity: this.requireBigInt(body, 'quantity'),
+    });
+
+    return { status: 200, body: { matches } };
+  }
+
+  private parseOrderFilters(url: URL) {
+    const side = url.searchParams.get('side') ?? undefined;
+    if (side !== undefined && side !== 'buy' && side !== 'sell') {
+      throw new HttpError(400, 'invalid_request', 'side must be "buy" or "sell"');
+    }
+
+    return {
+      side: side as OrderSide | undefined,
+      baseToken: url.searchParams.get('baseToken') ?? undefined,
+      quoteToken: url.searchParams.get('quoteToken') ?? undefined,
+      maker: url.searchParams.get('maker') ?? undefined,
+    };
+  }
+
+  // ========================================
+  // Private: Routing & IO
+  // ========================================
+
+  private add(method: string, path: string, handler: RouteHandler): void {
+    const keys: string[] = [];
+    const source = path.replace(/:(\w+)/g, (_, key: string) => {
+      keys.push(key);
+      return '([^/]+)';
+    });
+    this.routes.push({ method, pattern: new RegExp(`^${source}/?$`), keys, handler });
+  }
+
+  private readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new HttpError(413, 'payload_too_large', 'Request body too large'));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+
+      req.on('end', () => {
+        const raw = Buffer.concat(chunks).toString('utf-8');
+        if (raw.length === 0) {
+          resolve({});
+          return;
+        }
+        try {
+          const parsed = JSON.parse(raw);
+          if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            reject(new HttpError(400, 'invalid_json', 'Request body must be a JSON object'));
+            return;
+          }
+          resolve(parsed as Record<string, unknown>);
+        } catch {
+          reject(new HttpError(400, 'invalid_json', 'Request body is not valid JSON'));
+        }
+      });
+
+      req.on('error', reject);
+    });
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    const json = JSON.stringify(body, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(json),
+    });
+    res.end(json);
+  }
+
+  /**
+   * Map thrown errors to status codes. OrderBook and OrderBookAPI throw
+   * plain Errors, so domain failures are classified by message.
+   */
+  private toHttpError(error: unknown): HttpError {
+    if (error instanceof HttpError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (/not found/i.test(message)) {
+      return new HttpError(404, 'not_found', message);
+    }
+    if (/only maker|recovers to|not maker/i.test(message)) {
+      return new HttpError(403, 'forbidden', message);
+    }
+    if (/already exists|already used/i.test(message)) {
+      return new HttpError(409, 'conflict', message);
+    }
+    if (error instanceof Error && !(error instanceof TypeError) && !(error instanceof RangeError)) {
+      return new HttpError(422, 'rejected', message);
+    }
+
+    return new HttpError(500, 'internal_error', 'Internal server error');
+  }
+
+  // ========================================
+  // Private: Validation
+  // ========================================
+
+  private requireString(body: Record<string, unknown>, field: string): string {
+    const value = body[field];
+    if (typeof value !== 'string' || value.length === 0) {
+      throw new HttpError(400, 'invalid_request', `${field} must be a non-empty string`);
+    }
+    return value;
+  }
+
+  private requireAddress(body: Record<string, unknown>, field: string): string {
+    const value = this.requireString(body, field);
+    if (!/^0x[a-fA-F0-9]{40}$/.test(value)) {
+      throw new HttpError(400, 'invalid_request', `${field} must be an address`);
+    }
+    return value;
+  }
+
+  private requireSide(body: Record<string, unknown>): OrderSide {
+    const value = body.side;
+    if (value !== 'buy' && value !== 'sell') {
+      throw new HttpError(400, 'invalid_request', 'side must be "buy" or "sell"');
+    }
+    return value;
+  }
+
+  private optionalTimeInForce(body: Record<string, unknown>): TimeInForce | undefined {
+    const value = body.timeInForce;
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!TIME_IN_FORCE_VALUES.includes(value as TimeInForce)) {
+      throw new HttpError(400, 'invalid_request', `timeInForce must be one of ${TIME_IN_FORCE_VALUES.join(', ')}`);
+    }
+    return value as TimeInForce;
+  }
+
+  private optionalOrderType(body: Record<string, unknown>): OrderType | undefined {
+    const value = body.orderType;
+    if (value !== undefined && value !== 'limit' && value !== 'market') {
+      throw new HttpError(400, 'invalid_request', 'orderType must be "limit" or "market"');
+    }
+    return value;
+  }
+
+  private optionalSelfTradePrevention(body: Record<string, unknown>): SelfTradePrevention | undefined {
+    const value = body.selfTradePrevention;
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    if (!SELF_TRADE_PREVENTION_MODES.includes(value as SelfTradePrevention)) {
+      throw new HttpError(400, 'invalid_request', `selfTradePrevention must be one of ${SELF_TRADE_PREVENTION_MODES.join(', ')}`);
+    }
+    return value as SelfTradePrevention;
+  }
+
+  private requireBigInt(body: Record<string, unknown>, field: string): bigint {
+    const value = body[field];
+    if (typeof value === 'string' && /^\d+$/.test(value)) {
+      return BigInt(value);
+    }
+    if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+      return BigInt(value);
+    }
+    throw new HttpError(400, 'invalid_request', `${field} must be a non-negative integer string`);
+  }
+
+  private optionalBoolean(body: Record<string, unknown>, field: string): boolean | undefined {
+    const value = body[field];
+    if (value !== undefined && typeof value !== 'boolean') {
+      throw new HttpError(400, 'invalid_request', `${field} must be a boolean`);
+    }
+    return value;
+  }
+
+  private optionalBigInt(body: Record<string, unknown>, field: string): bigint | undefined {
+    return body[field] === undefined ? undefined : this.requireBigInt(body, field);
+  }
+
+  private optionalInteger(body: Record<string, unknown>, field: string): number | undefined {
+    return body[field] === undefined ? undefined : this.requireInteger(body, field);
+  }
+
+  private requireInteger(body: Record<string, unknown>, field: string): number {
+    const value = body[field];
+    if (typeof value !== 'number' || !Number.isSafeInteger(value)) {
+      throw new HttpError(400, 'invalid_request', `${field} must be an integer`);
+    }
+    return value;
+  }
+}
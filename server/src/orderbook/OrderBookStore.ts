@@ -0,0 +1,208 @@
+/**
+ * ============================================================================
+ * ORDER BOOK STORAGE
+ * ============================================================================
+ *
+ * Storage adapter for the order book journal (see OrderBookJournal)
+ *
+ * MODEL:
+ * - Append-only log of sequenced records: each book command (`command`),
+ *   the OrderBookChanges it caused, `rejected` if it threw, the matcher's
+ *   FillRecord updates (`trade`), order nonces marked used (`nonce`) and
+ *   trigger orders entering and leaving the TriggerBook (`triggerPlaced`,
+ *   `triggerClosed`)
+ * - Periodic snapshots of the whole book; recovery only needs the records
+ *   after the latest one
+ * - State = latest snapshot + every change after its `seq`, rebuilt by
+ *   replayJournal(); re-executing the commands instead is OrderBookReplay
+ *
+ * IMPLEMENTATIONS:
+ * - InMemoryOrderBookStore: lives as long as the process (tests, dev),
+ *   drops records covered by a snapshot
+ * - FileOrderBookStore: JSON lines log and JSON snapshot in a directory,
+ *   archives records covered by a snapshot
+ * ============================================================================
+ */
+
+import type { FillRecord } from '@shared/types/fill';
+import type { OrderRecord } from '@shared/types/order';
+import type {
+  FillReservation,
+  IssuedCommand,
+  OrderBookChange,
+  OrderBookEntry,
+  OrderBookState,
+} from './OrderBook';
+import type { UsedNonce } from './OrderVerifier';
+
+export const SNAPSHOT_VERSION = 1;
+
+export type JournalEvent =
+  | ({ type: 'command' } & IssuedCommand)
+  | { type: 'rejected'; reason: string }
+  | OrderBookChange
+  | { type: 'trade'; fill: FillRecord }
+  | ({ type: 'nonce' } & UsedNonce)
+  | { type: 'triggerPlaced'; order: OrderRecord }
+  | { type: 'triggerClosed'; orderId: string; outcome: TriggerOutcome };
+
+/**
+ * How a trigger order left the TriggerBook
+ */
+export type TriggerOutcome = 'activated' | 'rejected' | 'cancelled' | 'expired';
+
+export type JournalRecord = JournalEvent & { seq: number };
+
+export interface OrderBookSnapshot {
+  version: number;
+  seq: number; // Last journal record included
+  takenAt: number;
+  book: OrderBookState;
+  fills: FillRecord[];
+  nonces?: UsedNonce[]; // Missing in snapshots taken before nonces were journaled
+  triggers?: OrderRecord[]; // Pending trigger orders, missing in older snapshots
+}
+
+/**
+ * Book, fill records, used nonces and pending trigger orders rebuilt from
+ * a snapshot and the records after it
+ */
+export interface ReplayedJournal {
+  seq: number; // Last record applied
+  book: OrderBookState;
+  fills: FillRecord[];
+  nonces: UsedNonce[];
+  triggers: OrderRecord[];
+}
+
+export interface OrderBookStore {
+  append(record: JournalRecord): void;
+  /** Records with a seq above `afterSeq`, in order */
+  readEvents(afterSeq: number): JournalRecord[];
+  loadSnapshot(): OrderBookSnapshot | undefined;
+  /** Store a snapshot; records up to its seq leave the live log */
+  saveSnapshot(snapshot: OrderBookSnapshot): void;
+}
+
+export class InMemoryOrderBookStore implements OrderBookStore {
+  private records: JournalRecord[] = [];
+  private snapshot?: OrderBookSnapshot;
+
+  append(record: JournalRecord): void {
+    this.records.push(record);
+  }
+
+  readEvents(afterSeq: number): JournalRecord[] {
+    return this.records.filter(record => record.seq > afterSeq);
+  }
+
+  loadSnapshot(): OrderBookSnapshot | undefined {
+    return this.snapshot;
+  }
+
+  saveSnapshot(snapshot: OrderBookSnapshot): void {
+    this.snapshot = snapshot;
+    this.records = this.records.filter(record => record.seq > snapshot.seq);
+  }
+}
+
+/**
+ * Apply `records` on top of `snapshot` (or an empty book). Records must
+ * continue the snapshot's sequence without gaps.
+ */
+export function replayJournal(snapshot: OrderBookSnapshot | undefined, records: JournalRecord[]): ReplayedJournal {
+  if (snapshot && snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported order book snapshot version ${snapshot.version}`);
+  }
+
+  const orders = new Map<string, OrderBookEntry>();
+  const activeOrders = new Set<string>(snapshot?.book.activeOrders ?? []);
+  const reservations = new Map<string, FillReservation>();
+  const fills = new Map<string, FillRecord>();
+  const nonces = new Map<string, UsedNonce>();
+  const triggers = new Map<string, OrderRecord>();
+  let nextSequence = snapshot?.book.nextSequence ?? 0;
+  let nextTradeNumber = snapshot?.book.nextTradeNumber ?? 0;
+  let seq = snapshot?.seq ?? 0;
+
+  for (const entry of snapshot?.book.orders ?? []) {
+    orders.set(entry.order.id, { ...entry, order: { ...entry.order }, fills: [...entry.fills] });
+  }
+  snapshot?.book.reservations.forEach(reservation => reservations.set(reservation.tradeId, reservation));
+  snapshot?.fills.forEach(fill => fills.set(fill.id, { ...fill }));
+  snapshot?.nonces?.forEach(used => nonces.set(`${used.maker}:${used.nonce}`, used));
+  snapshot?.triggers?.forEach(order => triggers.set(order.id, { ...order }));
+
+  for (const record of records) {
+    if (record.seq !== seq + 1) {
+      throw new Error(`Order book journal jumps from record ${seq} to ${record.seq}`);
+    }
+    seq = record.seq;
+
+    switch (record.type) {
+      case 'order': {
+        const { order, sequence, displayed, reserved, active } = record;
+        orders.set(order.id, {
+          order: { ...order },
+          sequence,
+          displayed,
+          reserved,
+          fills: orders.get(order.id)?.fills ?? [],
+        });
+        if (active) {
+          activeOrders.add(order.id);
+        } else {
+          activeOrders.delete(order.id);
+        }
+        if (sequence >= nextSequence) {
+          nextSequence = sequence + 1;
+        }
+        break;
+      }
+      case 'fill': {
+        const entry = orders.get(record.orderId);
+        if (!entry) {
+          throw new Error(`Journal record ${seq} fills unknown order ${record.orderId}`);
+        }
+        entry.fills.push(record.fill);
+        break;
+      }
+      case 'reserved':
+        reservations.set(record.reservation.tradeId, record.reservation);
+        nextTradeNumber++;
+        break;
+      case 'unreserved':
+        reservations.delete(record.tradeId);
+        break;
+      case 'trade':
+        fills.set(record.fill.id, { ...record.fill });
+        break;
+      case 'nonce':
+        nonces.set(`${record.maker}:${record.nonce}`, { maker: record.maker, nonce: record.nonce });
+        break;
+      case 'triggerPlaced':
+        triggers.set(record.order.id, { ...record.order });
+        break;
+      case 'triggerClosed':
+        triggers.delete(record.orderId);
+        break;
+      case 'command':
+      case 'rejected':
+        break; // Inputs; their effects are the changes that follow
+    }
+  }
+
+  return {
+    seq,
+    book: {
+      nextSequence,
+      nextTradeNumber,
+      orders: Array.from(orders.values()),
+      activeOrders: Array.from(activeOrders),
+      reservations: Array.from(reservations.values()),
+    },
+    fills: Array.from(fills.values()),
+    nonces: Array.from(nonces.values()),
+    triggers: Array.from(triggers.values()),
+  };
+}
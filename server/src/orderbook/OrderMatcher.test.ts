@@ -0,0 +1,239 @@
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { TOKENS } from '@shared/markets/registry';
+import type { NitroliteClient } from '../nitrolite/client';
+import { generateTradeSessionMessage } from '../nitrolite/create-session';
+import { InMemoryTradeSessionStore } from '../nitrolite/session-storage';
+import { setLoggerSilenced } from '../nitrolite/utils/logger';
+import type { SelfTradePrevention } from '@shared/types/order';
+import { OrderBook } from './OrderBook';
+import {
+  OrderMatcher,
+  type MatchResult,
+  type SelfTradePrevented,
+  type TimeInForceCancellation,
+  type TradeReleased,
+  type TradeSessionGenerator,
+} from './OrderMatcher';
+import { ALICE, BOB, CAROL, ETH, PRICE, clearNode, createMatcher, makeOrder } from './test-fixtures';
+
+describe('OrderMatcher', () => {
+  let matcher: OrderMatcher | undefined;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  afterEach(() => {
+    matcher?.close();
+    matcher = undefined;
+  });
+
+  describe('when a trade session cannot be generated', () => {
+    const offline = { isConnected: false } as unknown as NitroliteClient;
+
+    it('releases the reservation and cancels the IOC remainder', async () => {
+      const book = new OrderBook();
+      matcher = new OrderMatcher(book, offline, new InMemoryTradeSessionStore());
+      const released: TradeReleased[] = [];
+      matcher.on('released', (event: TradeReleased) => released.push(event));
+
+      book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+      const bid = book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', timeInForce: 'IOC' }));
+
+      expect(await matcher.onNewOrder(bid)).toEqual([]);
+      expect(released.map(event => event.reason)).toEqual(['trade session could not be generated']);
+      expect(book.getOrder('bid')!.order.status).toBe('cancelled');
+      expect(book.getOrder('ask')!.order.remaining).toBe(ETH);
+      expect(book.getReservations()).toEqual([]);
+      expect(book.verifyConsistency()).toEqual([]);
+    });
+  });
+
+  describe('time in force', () => {
+    it('cancels what an IOC order could not fill', async () => {
+      const book = new OrderBook();
+      matcher = createMatcher(book);
+      const cancelled: TimeInForceCancellation[] = [];
+      matcher.on('cancelled', (event: TimeInForceCancellation) => cancelled.push(event));
+
+      book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+      const bid = book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', size: 2n * ETH, timeInForce: 'IOC' }));
+
+      expect((await matcher.onNewOrder(bid)).map(match => match.fillQuantity)).toEqual([ETH]);
+      expect(cancelled.map(event => event.reason)).toEqual([`IOC order left ${ETH} unfilled`]);
+      expect(book.getOrder('bid')!.order).toMatchObject({ status: 'cancelled', remaining: ETH });
+      expect(book.getOrder('bid')!.reserved).toBe(ETH);
+    });
+
+    it('kills a FOK order the book cannot fill in full, without touching the makers', async () => {
+      const book = new OrderBook();
+      matcher = createMatcher(book);
+
+      book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+      const bid = book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', size: 2n * ETH, timeInForce: 'FOK' }));
+
+      expect(await matcher.onNewOrder(bid)).toEqual([]);
+      expect(book.getOrder('bid')!.order.status).toBe('cancelled');
+      expect(book.getOrder('ask')!.order.remaining).toBe(ETH);
+      expect(book.getReservations()).toEqual([]);
+    });
+
+    it('fills a FOK order across makers and only then reports the matches', async () => {
+      const book = new OrderBook();
+      matcher = createMatcher(book);
+      const reported: MatchResult[] = [];
+      matcher.on('match', (match: MatchResult) => reported.push(match));
+
+      book.createOrder(makeOrder({ id: 'ask-1', maker: ALICE, side: 'sell' }));
+      book.createOrder(makeOrder({ id: 'ask-2', maker: CAROL, side: 'sell' }));
+      const bid = book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', size: 2n * ETH, timeInForce: 'FOK' }));
+
+      const matches = await matcher.onNewOrder(bid);
+
+      expect(matches.map(match => match.makerOrderId)).toEqual(['ask-1', 'ask-2']);
+      expect(reported).toEqual(matches);
+      expect(book.getOrder('bid')!.order.remaining).toBe(0n);
+    });
+
+    it('releases a FOK pass that falls short when a session fails', async () => {
+      const book = new OrderBook();
+      let sessions = 0;
+      const failSecond: TradeSessionGenerator = async (...args) => {
+        if (++sessions === 2) throw new Error('ClearNode unavailable');
+        return generateTradeSessionMessage(...args);
+      };
+      matcher = new OrderMatcher(book, clearNode, new InMemoryTradeSessionStore(), { generateSession: failSecond });
+      const released: TradeReleased[] = [];
+      const reported: MatchResult[] = [];
+      matcher.on('released', (event: TradeReleased) => released.push(event));
+      matcher.on('match', (match: MatchResult) => reported.push(match));
+
+      book.createOrder(makeOrder({ id: 'ask-1', maker: ALICE, side: 'sell' }));
+      book.createOrder(makeOrder({ id: 'ask-2', maker: CAROL, side: 'sell' }));
+      const bid = book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', size: 2n * ETH, timeInForce: 'FOK' }));
+
+      expect(await matcher.onNewOrder(bid)).toEqual([]);
+      expect(reported).toEqual([]);
+      expect(released.map(event => event.reservation.makerOrderId).sort()).toEqual(['ask-1', 'ask-2']);
+      expect(book.getOrder('bid')!.order.status).toBe('cancelled');
+      expect(book.getOrder('ask-1')!.order.remaining).toBe(ETH);
+      expect(book.getOrder('ask-2')!.order.remaining).toBe(ETH);
+      expect(book.verifyConsistency()).toEqual([]);
+    });
+
+    it('never takes with a post-only order', async () => {
+      const book = new OrderBook();
+      matcher = createMatcher(book);
+
+      book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+
+      expect(() => book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', timeInForce: 'POST_ONLY' }))).toThrow(
+        /Post-only order would cross the book/
+      );
+      const resting = book.createOrder(makeOrder({ id: 'low', maker: BOB, side: 'buy', price: PRICE - ETH, timeInForce: 'POST_ONLY' }));
+      expect(await matcher.onNewOrder(resting)).toEqual([]);
+      expect(book.getOrder('low')!.order.status).toBe('open');
+    });
+
+    it('slides a crossing POST_ONLY_SLIDE order one tick behind the best price', async () => {
+      const book = new OrderBook();
+      matcher = createMatcher(book);
+      const { tickSize } = book.getMarketConfig(TOKENS.ETH.address, TOKENS.USDC.address);
+
+      book.createOrder(makeOrder({ id: 'ask', maker: ALICE, side: 'sell' }));
+      const bid = book.createOrder(makeOrder({ id: 'bid', maker: BOB, side: 'buy', price: PRICE + ETH, timeInForce: 'POST_ONLY_SLIDE' }));
+
+      expect(bid.price).toBe(PRICE - tickSize);
+      expect(await matcher.onNewOrder(bid)).toEqual([]);
+      expect(book.getOrder('bid')!.order.status).toBe('open');
+    });
+
+    it('checks expiry against GTC and GTD', () => {
+      const book = new OrderBook();
+
+      expect(() => book.createOrder(makeOrder({ id: 'gtc', maker: ALICE, side: 'sell', expiry: 4_000_000_000 }))).toThrow(
+        'GTC orders must not set an expiry'
+      );
+      expect(() => book.createOrder(makeOrder({ id: 'gtd', maker: ALICE, side: 'sell', timeInForce: 'GTD' }))).toThrow(
+        'GTD orders need an expiry'
+      );
+    });
+  });
+
+  describe('self-trade prevention', () => {
+    // ALICE's own ask is first in the queue, CAROL's behind it
+    async function selfCross(mode?: SelfTradePrevention, account?: SelfTradePrevention) {
+      const book = new OrderBook();
+      matcher = createMatcher(book);
+      if (account) matcher.setAccountSelfTradePrevention(ALICE, account);
+      const prevented: SelfTradePrevented[] = [];
+      matcher.on('selfTrade', (event: SelfTradePrevented) => prevented.push(event));
+
+      book.createOrder(makeOrder({ id: 'own', maker: ALICE, side: 'sell' }));
+      book.createOrder(makeOrder({ id: 'other', maker: CAROL, side: 'sell' }));
+      const bid = book.createOrder(makeOrder({ id: 'bid', maker: ALICE, side: 'buy', size: 2n * ETH, selfTradePrevention: mode }));
+      const matches = await matcher.onNewOrder(bid);
+
+      const status = (id: string) => book.getOrder(id)!.order.status;
+      return { book, matches, prevented, status };
+    }
+
+    it('cancel_newest (the default) cancels the taker', async () => {
+      const { matches, prevented, status } = await selfCross();
+
+      expect(matches).toEqual([]);
+      expect(prevented).toMatchObject([{ mode: 'cancel_newest', takerOrderId: 'bid', makerOrderId: 'own', quantity: ETH }]);
+      expect([status('bid'), status('own'), status('other')]).toEqual(['cancelled', 'open', 'open']);
+    });
+
+    it('cancel_oldest cancels the resting order and keeps matching', async () => {
+      const { book, matches, status } = await selfCross('cancel_oldest');
+
+      expect(matches.map(match => match.makerOrderId)).toEqual(['other']);
+      expect(status('own')).toBe('cancelled');
+      expect(book.getOrder('other')!.reserved).toBe(ETH);
+    });
+
+    it('cancel_both cancels both orders', async () => {
+      const { matches, status } = await selfCross('cancel_both');
+
+      expect(matches).toEqual([]);
+      expect([status('bid'), status('own'), status('other')]).toEqual(['cancelled', 'cancelled', 'open']);
+    });
+
+    it('decrement_and_cancel shrinks both by the overlap without trading', async () => {
+      const { book, matches, status } = await selfCross('decrement_and_cancel');
+
+      expect(status('own')).toBe('cancelled');
+      expect(book.getOrder('bid')!.order.size).toBe(ETH);
+      expect(matches.map(match => [match.makerOrderId, match.fillQuantity])).toEqual([['other', ETH]]);
+      expect(book.getOrder('own')!.fills).toEqual([]);
+      expect(book.verifyConsistency()).toEqual([]);
+    });
+
+    it('takes the order mode over the account mode over the default', async () => {
+      expect((await selfCross(undefined, 'cancel_both')).prevented[0].mode).toBe('cancel_both');
+      matcher?.close();
+      expect((await selfCross('cancel_oldest', 'cancel_both')).prevented[0].mode).toBe('cancel_oldest');
+    });
+
+    it('rejects an unknown account mode', () => {
+      matcher = createMatcher(new OrderBook());
+
+      expect(() => matcher!.setAccountSelfTradePrevention(ALICE, 'ignore' as SelfTradePrevention)).toThrow(
+        'Unsupported selfTradePrevention: ignore'
+      );
+    });
+
+    it('counts a self-match against what a FOK order can fill', async () => {
+      const book = new OrderBook();
+      matcher = createMatcher(book);
+
+      book.createOrder(makeOrder({ id: 'own', maker: ALICE, side: 'sell' }));
+      book.createOrder(makeOrder({ id: 'other', maker: CAROL, side: 'sell' }));
+      const bid = book.createOrder(makeOrder({ id: 'bid', maker: ALICE, side: 'buy', size: 2n * ETH, timeInForce: 'FOK' }));
+
+      expect(await matcher.onNewOrder(bid)).toEqual([]);
+      expect(book.getOrder('own')!.order.status).toBe('open');
+      expect(book.getOrder('other')!.order.remaining).toBe(ETH);
+    });
+  });
+});
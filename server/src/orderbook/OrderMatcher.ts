@@ -7,17 +7,45 @@
  * 
  * FEATURES:
  * - Real-time order matching
- * - Price-time priority matching
- * - Partial fill support
- * - Session creation for matched orders
+ * - Price-time priority matching (best price, then earliest createdAt,
+ *   then insertion sequence for same-millisecond orders)
+ * - Partial fill support (minFill per execution, all-or-none orders;
+ *   see shared/math/partialFill)
+ * - Time-in-force: IOC remainders are cancelled, FOK orders that cannot
+ *   fill completely are killed (a pass that falls short releases what it
+ *   reserved), post-only orders never take
+ * - Market orders, reported with their average fill price
+ * - Self-trade prevention (per order, per account or server default)
+ * - Iceberg makers fill one visible slice at a time
+ * - Session creation for matched orders: the matched quantity is reserved
+ *   first, committed once ClearNode confirms the session and released if it
+ *   fails or times out
+ * - A FillRecord per trade follows the session: awaiting_signatures →
+ *   submitted → confirmed | failed; every new or changed record is
+ *   emitted as 'fill' so it can be journaled with the book
+ * - Deterministic given the book's commands: trade ids come from the book
+ *   and timestamps from its clock
  * - Event-driven architecture
  * ============================================================================
  */
 
-import { OrderBook } from './OrderBook';
+import { OrderBook, type FillReservation, type OrderBookEntry } from './OrderBook';
+import { visibleQuantity, type QueuePosition } from './MarketBook';
 import { generateTradeSessionMessage } from '../nitrolite/create-session';
-import type { OrderRecord } from '@shared/types/order';
+import {
+  SELF_TRADE_PREVENTION_MODES,
+  isPostOnly,
+  orderTypeOf,
+  restsOnBook,
+  timeInForceOf,
+  type OrderRecord,
+  type SelfTradePrevention,
+} from '@shared/types/order';
+import type { FillRecord } from '@shared/types/fill';
 import type { NitroliteClient } from '../nitrolite/client';
+import type { TradeSessionStore } from '../nitrolite/session-storage';
+import { averageFillPrice, computeNotional } from '@shared/math/notional';
+import { computePartialFill } from '@shared/math/partialFill';
 import { logger } from '../nitrolite/utils/logger';
 import { EventEmitter } from 'events';
 
@@ -27,21 +55,229 @@ export interface MatchResult {
   takerOrderId: string;
   makerAddress: string;
   takerAddress: string;
+  baseToken: string;
+  quoteToken: string;
   fillQuantity: bigint;
   price: bigint;
   sessionData: any;
   timestamp: number;
 }
 
+/**
+ * Emitted as 'cancelled' when time-in-force rules cancel a taker order
+ */
+export interface TimeInForceCancellation {
+  order: OrderRecord;
+  reason: string;
+}
+
+/**
+ * Emitted as 'executed' once a market order has finished matching
+ */
+export interface MarketOrderExecution {
+  order: OrderRecord;
+  filledQuantity: bigint;
+  averagePrice?: bigint; // Undefined when nothing filled
+  tradeIds: string[];
+}
+
+/**
+ * Emitted as 'selfTrade' for every match prevented because both sides
+ * belong to the same wallet
+ */
+export interface SelfTradePrevented {
+  mode: SelfTradePrevention;
+  address: string;
+  takerOrderId: string;
+  makerOrderId: string;
+  quantity: bigint; // Quantity that would have traded
+  orders: OrderRecord[]; // Taker and/or maker after the prevention was applied
+}
+
+/**
+ * Emitted as 'released' when a reserved trade is given back to its orders
+ */
+export interface TradeReleased {
+  reservation: FillReservation;
+  reason: string;
+  orders: OrderRecord[]; // Maker and taker after the release
+}
+
+export interface OrderMatcherOptions {
+  /** Used when neither the taker order nor its account sets a mode */
+  selfTradePrevention?: SelfTradePrevention;
+  /** How long a matched quantity stays reserved without a session */
+  reservationTimeoutMs?: number;
+  /** How long maker and taker get to sign each trade session */
+  signingTimeoutMs?: number;
+  /** Builds and stores each trade session; replay swaps in a stub */
+  generateSession?: TradeSessionGenerator;
+}
+
+export type TradeSessionGenerator = typeof generateTradeSessionMessage;
+
+/** Release reason of a trade whose session could not be generated */
+export const SESSION_GENERATION_FAILED = 'trade session could not be generated';
+
+const DEFAULT_RESERVATION_TIMEOUT_MS = 300_000;
+
+type SelfTradeOutcome = 'continue' | 'stop';
+
 export class OrderMatcher extends EventEmitter {
   private isMatching = false;
   private matchQueue: OrderRecord[] = [];
+  private accountSelfTradePrevention = new Map<string, SelfTradePrevention>(); // By lowercased address
+  private readonly defaultSelfTradePrevention: SelfTradePrevention;
+  private readonly reservationTimeoutMs: number;
+  private readonly signingTimeoutMs?: number;
+  private readonly generateSession: TradeSessionGenerator;
+  private reservationTimers = new Map<string, ReturnType<typeof setTimeout>>(); // By trade id
+  private fills = new Map<string, FillRecord>(); // By trade id
 
   constructor(
     private orderBook: OrderBook,
-    private nitroliteClient: NitroliteClient
+    private nitroliteClient: NitroliteClient,
+    private sessions: TradeSessionStore,
+    options: OrderMatcherOptions = {}
   ) {
     super();
+    this.defaultSelfTradePrevention = options.selfTradePrevention ?? 'cancel_newest';
+    this.reservationTimeoutMs = options.reservationTimeoutMs ?? DEFAULT_RESERVATION_TIMEOUT_MS;
+    this.signingTimeoutMs = options.signingTimeoutMs;
+    this.generateSession = options.generateSession ?? generateTradeSessionMessage;
+  }
+
+  /**
+   * Set (or clear, with undefined) an account's self-trade prevention mode
+   */
+  setAccountSelfTradePrevention(address: string, mode: SelfTradePrevention | undefined): void {
+    if (mode === undefined) {
+      this.accountSelfTradePrevention.delete(address.toLowerCase());
+      return;
+    }
+    if (!SELF_TRADE_PREVENTION_MODES.includes(mode)) {
+      throw new Error(`Unsupported selfTradePrevention: ${mode}`);
+    }
+    this.accountSelfTradePrevention.set(address.toLowerCase(), mode);
+  }
+
+  /**
+   * Mode that applies to an order: its own, else its account's, else the default
+   */
+  getSelfTradePrevention(order: OrderRecord): SelfTradePrevention {
+    return order.selfTradePrevention
+      ?? this.accountSelfTradePrevention.get(order.maker.toLowerCase())
+      ?? this.defaultSelfTradePrevention;
+  }
+
+  getFill(tradeId: string): FillRecord | undefined {
+    return this.fills.get(tradeId);
+  }
+
+  /**
+   * Fill records of all trades, optionally for one wallet (maker or taker)
+   */
+  getFills(address?: string): FillRecord[] {
+    const fills = Array.from(this.fills.values());
+    if (address === undefined) {
+      return fills;
+    }
+    const wallet = address.toLowerCase();
+    return fills.filter(fill => fill.maker.toLowerCase() === wallet || fill.taker.toLowerCase() === wallet);
+  }
+
+  /**
+   * The fully signed session was sent to ClearNode. From here the ClearNode
+   * request timeout, not the reservation timeout, bounds the wait.
+   */
+  markTradeSubmitted(tradeId: string): FillRecord {
+    const fill = this.fills.get(tradeId);
+    if (!fill) {
+      throw new Error(`No fill for trade ${tradeId}`);
+    }
+    if (fill.status !== 'awaiting_signatures') {
+      throw new Error(`Trade ${tradeId} is ${fill.status}, not awaiting signatures`);
+    }
+
+    this.clearReservationTimer(tradeId);
+    this.setFillStatus(fill, 'submitted');
+    return fill;
+  }
+
+  /**
+   * Commit a reserved trade once ClearNode confirmed its app session
+   */
+  commitTrade(tradeId: string): FillReservation {
+    this.clearReservationTimer(tradeId);
+    const reservation = this.orderBook.commitMatch(tradeId);
+
+    const fill = this.fills.get(tradeId);
+    if (fill) {
+      this.setFillStatus(fill, 'confirmed');
+    }
+
+    this.emit('committed', reservation);
+    return reservation;
+  }
+
+  /**
+   * Give a reserved trade's quantity back to both orders (session failed
+   * or timed out) and drop its pending session. IOC/FOK takers cannot
+   * rest, so what they get back is cancelled.
+   */
+  releaseTrade(tradeId: string, reason: string): FillReservation {
+    this.clearReservationTimer(tradeId);
+    const reservation = this.orderBook.releaseMatch(tradeId, reason);
+    this.sessions.removePending(tradeId);
+
+    const fill = this.fills.get(tradeId);
+    if (fill) {
+      this.setFillStatus(fill, 'failed');
+    }
+
+    const taker = this.orderBook.getOrder(reservation.takerOrderId)!.order;
+    this.cancelUnfilledRemainder(taker);
+
+    const released: TradeReleased = {
+      reservation,
+      reason,
+      orders: [this.orderBook.getOrder(reservation.makerOrderId)!.order, this.orderBook.getOrder(reservation.takerOrderId)!.order],
+    };
+    this.emit('released', released);
+    return reservation;
+  }
+
+  /**
+   * Load fill records from a journal, before any trade is matched
+   */
+  restoreFills(fills: FillRecord[]): void {
+    fills.forEach(fill => this.fills.set(fill.id, fill));
+  }
+
+  /**
+   * Take over the reservations of a restored book. Trades still waiting for
+   * signatures get a timer for what is left of their reservation timeout;
+   * trades that were being submitted to ClearNode when the server stopped
+   * never got an answer and are released.
+   */
+  resumeReservations(now: number = this.orderBook.now()): void {
+    for (const reservation of this.orderBook.getReservations()) {
+      const { tradeId } = reservation;
+      if (this.fills.get(tradeId)?.status === 'submitted') {
+        this.releaseTrade(tradeId, 'server restarted while the session was being submitted');
+        continue;
+      }
+      const elapsed = now - reservation.createdAt;
+      this.scheduleRelease(tradeId, Math.max(this.reservationTimeoutMs - elapsed, 0));
+    }
+  }
+
+  /**
+   * Stop all reservation timers (reservations stay in the book)
+   */
+  close(): void {
+    this.reservationTimers.forEach(timer => clearTimeout(timer));
+    this.reservationTimers.clear();
   }
 
   /**
@@ -72,6 +308,10 @@ export class OrderMatcher extends EventEmitter {
         const takerOrder = this.matchQueue.shift()!;
         const orderMatches = await this.matchOrder(takerOrder);
         matches.push(...orderMatches);
+        this.cancelUnfilledRemainder(takerOrder);
+        if (orderTypeOf(takerOrder) === 'market') {
+          this.reportMarketExecution(takerOrder, orderMatches);
+        }
       }
     } finally {
       this.isMatching = false;
@@ -86,13 +326,18 @@ export class OrderMatcher extends EventEmitter {
   private async matchOrder(takerOrder: OrderRecord): Promise<MatchResult[]> {
     const matches: MatchResult[] = [];
 
+    if (isPostOnly(takerOrder)) {
+      logger.info(`Order ${takerOrder.id} is post-only, not taking liquidity`);
+      return matches;
+    }
+
     // Find matching orders on the opposite side
     const matchingOrders = this.orderBook.findMatchingOrders(
       takerOrder.side,
       takerOrder.baseToken,
       takerOrder.quoteToken,
       takerOrder.price,
-      takerOrder.minFill
+      takerOrder.remaining
     );
 
     if (matchingOrders.length === 0) {
@@ -102,6 +347,17 @@ export class OrderMatcher extends EventEmitter {
 
     logger.success(`✓ Found ${matchingOrders.length} potential matches for order ${takerOrder.id}`);
 
+    const selfTradeMode = this.getSelfTradePrevention(takerOrder);
+
+    const isFillOrKill = timeInForceOf(takerOrder) === 'FOK';
+    if (isFillOrKill) {
+      const fillable = this.fillableQuantity(takerOrder, matchingOrders.map(entry => entry.order), selfTradeMode);
+      if (fillable < takerOrder.remaining) {
+        logger.info(`FOK order ${takerOrder.id} can only fill ${fillable} of ${takerOrder.remaining}`);
+        return matches;
+      }
+    }
+
     let remainingToFill = takerOrder.remaining;
 
     // Match with orders in price-time priority
@@ -111,17 +367,24 @@ export class OrderMatcher extends EventEmitter {
       }
 
       const makerOrder = makerEntry.order;
+      const queuePosition = this.getQueuePosition(makerOrder.id);
+
+      // Never open a session between a wallet and itself
+      if (makerOrder.maker.toLowerCase() === takerOrder.maker.toLowerCase()) {
+        const outcome = this.preventSelfTrade(selfTradeMode, takerOrder.id, makerOrder, remainingToFill);
+        remainingToFill = this.orderBook.getOrder(takerOrder.id)?.order.remaining ?? 0n;
+        if (outcome === 'stop') {
+          break;
+        }
+        continue;
+      }
 
-      // Calculate fill quantity
-      const fillQuantity = this.calculateFillQuantity(
-        remainingToFill,
-        makerOrder.remaining,
-        takerOrder.minFill,
-        makerOrder.minFill
-      );
+      // Calculate fill quantity (an iceberg maker only offers its visible slice)
+      const visible = visibleQuantity(makerEntry);
+      const fillQuantity = this.calculateFillQuantity(takerOrder, remainingToFill, makerOrder, visible);
 
       if (fillQuantity === 0n) {
-        logger.info(`Cannot fill - quantity below minFill threshold`);
+        logger.info(`Cannot fill - blocked by minFill or all-or-none terms`);
         continue;
       }
 
@@ -133,6 +396,7 @@ export class OrderMatcher extends EventEmitter {
           side: makerOrder.side,
           price: makerOrder.price.toString(),
           remaining: makerOrder.remaining.toString(),
+          queuePosition: queuePosition?.position,
         });
         logger.data('Taker Order', {
           id: takerOrder.id,
@@ -145,35 +409,64 @@ export class OrderMatcher extends EventEmitter {
           price: makerOrder.price.toString(),
         });
 
-        const tradeId = `trade-${makerOrder.id}-${takerOrder.id}-${Date.now()}`;
-        
-        const sessionData = await generateTradeSessionMessage(
-          tradeId,
-          makerOrder,
-          makerOrder.maker as `0x${string}`,
-          takerOrder.maker as `0x${string}`, // Taker is the maker of the taker order
-          fillQuantity,
-          this.nitroliteClient
-        );
-
-        // Record fills in both orders
-        const tradeValue = (fillQuantity * makerOrder.price) / BigInt(1e18);
-        
-        this.orderBook.recordFill(
-          makerOrder.id,
-          tradeId,
-          fillQuantity,
-          tradeValue,
-          takerOrder.maker
-        );
+        const market = this.orderBook.getMarketConfig(makerOrder.baseToken, makerOrder.quoteToken);
+        const tradeValue = computeNotional(market, fillQuantity, makerOrder.price);
 
-        this.orderBook.recordFill(
-          takerOrder.id,
-          tradeId,
-          fillQuantity,
-          tradeValue,
-          makerOrder.maker
-        );
+        // Hold the quantity on both orders before any await, so nothing
+        // else can take or cancel it while the session is built. The book
+        // assigns the trade id.
+        const makerSnapshot: OrderRecord = { ...makerOrder };
+        const makerSequence = makerEntry.sequence;
+        const reservation = this.orderBook.reserveMatch({
+          makerOrderId: makerOrder.id,
+          takerOrderId: takerOrder.id,
+          makerAddress: makerOrder.maker,
+          takerAddress: takerOrder.maker,
+          quantity: fillQuantity,
+          value: tradeValue,
+        });
+        const { tradeId } = reservation;
+
+        let sessionData: any;
+        try {
+          sessionData = await this.generateSession(
+            tradeId,
+            makerSnapshot,
+            makerOrder.maker as `0x${string}`,
+            takerOrder.maker as `0x${string}`, // Taker is the maker of the taker order
+            fillQuantity,
+            this.nitroliteClient,
+            this.sessions,
+            { market, signingTimeoutMs: this.signingTimeoutMs, now: () => reservation.createdAt }
+          );
+        } catch (error) {
+          // Through releaseTrade, so 'released' fires and an IOC/FOK
+          // taker's remainder is cancelled
+          this.releaseTrade(tradeId, SESSION_GENERATION_FAILED);
+          throw error;
+        }
+        this.scheduleRelease(tradeId);
+
+        const now = new Date(this.orderBook.now()).toISOString();
+        const fill: FillRecord = {
+          id: tradeId,
+          orderId: makerOrder.id,
+          maker: makerOrder.maker,
+          taker: takerOrder.maker,
+          quantity: fillQuantity,
+          price: makerOrder.price,
+          partial: fillQuantity < makerSnapshot.remaining,
+          channelId: makerOrder.channelId,
+          channelNonce: BigInt(sessionData.appDefinition.nonce),
+          signature: takerOrder.signature,
+          status: 'awaiting_signatures',
+          executedQuantity: fillQuantity,
+          remainingAfter: makerSnapshot.remaining - fillQuantity,
+          createdAt: now,
+          updatedAt: now,
+        };
+        this.fills.set(tradeId, fill);
+        this.emit('fill', { ...fill });
 
         const match: MatchResult = {
           tradeId,
@@ -181,10 +474,12 @@ export class OrderMatcher extends EventEmitter {
           takerOrderId: takerOrder.id,
           makerAddress: makerOrder.maker,
           takerAddress: takerOrder.maker,
+          baseToken: makerOrder.baseToken,
+          quoteToken: makerOrder.quoteToken,
           fillQuantity,
           price: makerOrder.price,
           sessionData,
-          timestamp: Date.now(),
+          timestamp: this.orderBook.now(),
         };
 
         matches.push(match);
@@ -194,15 +489,33 @@ export class OrderMatcher extends EventEmitter {
         logger.success(`  Filled: ${fillQuantity.toString()}`);
         logger.success(`  Remaining: ${remainingToFill.toString()}`);
 
-        // Emit match event
-        this.emit('match', match);
+        // Emit match event (FOK: once the whole order is reserved)
+        if (!isFillOrKill) {
+          this.emit('match', match);
+        }
+
+        if (makerEntry.sequence !== makerSequence && makerEntry.order.remaining > 0n) {
+          this.requeueRefilledSlice(matchingOrders, makerEntry);
+        }
 
       } catch (error) {
         logger.error(`Failed to create trade session for ${makerOrder.id} x ${takerOrder.id}`, error);
+        const takerStatus = this.orderBook.getOrder(takerOrder.id)?.order.status;
+        if (isFillOrKill || (takerStatus !== 'open' && takerStatus !== 'partially_filled')) {
+          break;
+        }
         continue;
       }
     }
 
+    if (isFillOrKill) {
+      if (remainingToFill > 0n) {
+        this.abandonFillOrKill(takerOrder, matches);
+        return [];
+      }
+      matches.forEach(match => this.emit('match', match));
+    }
+
     if (matches.length > 0) {
       logger.success(`✓ Created ${matches.length} matches for order ${takerOrder.id}`);
     }
@@ -211,23 +524,207 @@ export class OrderMatcher extends EventEmitter {
   }
 
   /**
-   * Calculate the quantity that can be filled
+   * A FOK order whose pass fell short (a session failed or a maker could
+   * not take its share): give back every reservation the pass made, so it
+   * either fills in full or not at all
+   */
+  private abandonFillOrKill(takerOrder: OrderRecord, matches: MatchResult[]): void {
+    logger.info(`FOK order ${takerOrder.id} could not be reserved in full, releasing ${matches.length} trade(s)`);
+    for (const match of matches) {
+      try {
+        this.releaseTrade(match.tradeId, 'FOK order could not be filled in full');
+      } catch (error) {
+        logger.error(`Failed to release trade ${match.tradeId}`, error);
+      }
+    }
+  }
+
+  /**
+   * Release a reservation whose session is not created in time
+   */
+  private scheduleRelease(tradeId: string, delayMs: number = this.reservationTimeoutMs): void {
+    const timer = setTimeout(() => {
+      this.reservationTimers.delete(tradeId);
+      try {
+        this.releaseTrade(tradeId, `trade session not created within ${this.reservationTimeoutMs}ms`);
+      } catch (error) {
+        logger.error(`Failed to release trade ${tradeId}`, error);
+      }
+    }, delayMs);
+    this.reservationTimers.set(tradeId, timer);
+  }
+
+  private setFillStatus(fill: FillRecord, status: FillRecord['status']): void {
+    fill.status = status;
+    fill.updatedAt = new Date(this.orderBook.now()).toISOString();
+    logger.info(`Fill ${fill.id} ${status}`);
+    this.emit('fill', { ...fill });
+  }
+
+  private clearReservationTimer(tradeId: string): void {
+    const timer = this.reservationTimers.get(tradeId);
+    if (timer) {
+      clearTimeout(timer);
+      this.reservationTimers.delete(tradeId);
+    }
+  }
+
+  /**
+   * A refilled iceberg slice went to the back of its price level; visit it
+   * again after the other makers at that price
+   */
+  private requeueRefilledSlice(matchingOrders: OrderBookEntry[], entry: OrderBookEntry): void {
+    let position = matchingOrders.indexOf(entry) + 1;
+    while (position < matchingOrders.length && matchingOrders[position].order.price === entry.order.price) {
+      position++;
+    }
+    matchingOrders.splice(position, 0, entry);
+  }
+
+  /**
+   * Report a resting maker order's place in the queue at its price level
+   */
+  getQueuePosition(orderId: string): QueuePosition | undefined {
+    return this.orderBook.getQueuePosition(orderId);
+  }
+
+  /**
+   * Cancel whatever an IOC or FOK order did not fill straight away
+   */
+  private cancelUnfilledRemainder(takerOrder: OrderRecord): void {
+    if (restsOnBook(takerOrder)) {
+      return;
+    }
+
+    const entry = this.orderBook.getOrder(takerOrder.id);
+    if (!entry || entry.order.remaining === 0n || (entry.order.status !== 'open' && entry.order.status !== 'partially_filled')) {
+      return;
+    }
+
+    const reason = timeInForceOf(takerOrder) === 'FOK'
+      ? 'FOK order could not be filled in full'
+      : `IOC order left ${entry.order.remaining} unfilled`;
+    const order = this.orderBook.cancelRemainder(takerOrder.id, reason);
+
+    const cancellation: TimeInForceCancellation = { order, reason };
+    this.emit('cancelled', cancellation);
+  }
+
+  /**
+   * Apply the taker's self-trade prevention mode to one self-match
+   */
+  private preventSelfTrade(
+    mode: SelfTradePrevention,
+    takerOrderId: string,
+    makerOrder: OrderRecord,
+    takerRemaining: bigint
+  ): SelfTradeOutcome {
+    const reason = `self-trade prevention (${mode})`;
+    const quantity = takerRemaining < makerOrder.remaining ? takerRemaining : makerOrder.remaining;
+    const orders: OrderRecord[] = [];
+    let outcome: SelfTradeOutcome;
+
+    switch (mode) {
+      case 'cancel_newest':
+        orders.push(this.orderBook.cancelRemainder(takerOrderId, reason));
+        outcome = 'stop';
+        break;
+      case 'cancel_oldest':
+        orders.push(this.orderBook.cancelRemainder(makerOrder.id, reason));
+        outcome = 'continue';
+        break;
+      case 'cancel_both':
+        orders.push(this.orderBook.cancelRemainder(takerOrderId, reason));
+        orders.push(this.orderBook.cancelRemainder(makerOrder.id, reason));
+        outcome = 'stop';
+        break;
+      case 'decrement_and_cancel': {
+        const taker = this.orderBook.decrementOrder(takerOrderId, quantity, reason);
+        orders.push(taker, this.orderBook.decrementOrder(makerOrder.id, quantity, reason));
+        outcome = taker.remaining === 0n ? 'stop' : 'continue';
+        break;
+      }
+    }
+
+    logger.warn(`Self-trade prevented for ${makerOrder.maker}: ${takerOrderId} x ${makerOrder.id} (${mode})`);
+
+    const prevented: SelfTradePrevented = {
+      mode,
+      address: makerOrder.maker,
+      takerOrderId,
+      makerOrderId: makerOrder.id,
+      quantity,
+      orders,
+    };
+    this.emit('selfTrade', prevented);
+
+    return outcome;
+  }
+
+  /**
+   * Summarize a market order's fills with their volume-weighted price
+   */
+  private reportMarketExecution(takerOrder: OrderRecord, matches: MatchResult[]): void {
+    const fills = matches.map(match => ({ quantity: match.fillQuantity, price: match.price }));
+    const execution: MarketOrderExecution = {
+      order: this.orderBook.getOrder(takerOrder.id)?.order ?? takerOrder,
+      filledQuantity: fills.reduce((sum, fill) => sum + fill.quantity, 0n),
+      averagePrice: averageFillPrice(fills),
+      tradeIds: matches.map(match => match.tradeId),
+    };
+
+    logger.info(
+      `Market order ${takerOrder.id} filled ${execution.filledQuantity} of ${takerOrder.size}` +
+        (execution.averagePrice !== undefined ? ` at avg ${execution.averagePrice}` : '')
+    );
+    this.emit('executed', execution);
+  }
+
+  /**
+   * Quantity a taker could fill against the given makers, walking them in
+   * order with the same minFill and self-trade rules as matchOrder
+   */
+  private fillableQuantity(takerOrder: OrderRecord, makerOrders: OrderRecord[], selfTradeMode: SelfTradePrevention): bigint {
+    let remaining = takerOrder.remaining;
+    let filled = 0n;
+    for (const makerOrder of makerOrders) {
+      if (remaining === 0n) break;
+
+      if (makerOrder.maker.toLowerCase() === takerOrder.maker.toLowerCase()) {
+        if (selfTradeMode === 'cancel_oldest') continue;
+        if (selfTradeMode === 'decrement_and_cancel') {
+          remaining -= remaining < makerOrder.remaining ? remaining : makerOrder.remaining;
+          continue;
+        }
+        break;
+      }
+
+      const quantity = this.calculateFillQuantity(takerOrder, remaining, makerOrder, makerOrder.remaining);
+      remaining -= quantity;
+      filled += quantity;
+    }
+    return filled;
+  }
+
+  /**
+   * Calculate the quantity that can be filled: as much as both sides have
+   * (`makerAvailable` is an iceberg maker's visible slice), or nothing if
+   * that breaks either side's minFill or all-or-none terms
    */
   private calculateFillQuantity(
+    takerOrder: OrderRecord,
     takerRemaining: bigint,
-    makerRemaining: bigint,
-    takerMinFill: bigint,
-    makerMinFill: bigint
+    makerOrder: OrderRecord,
+    makerAvailable: bigint
   ): bigint {
-    // Maximum we can fill is the minimum of both remainings
-    const maxFill = takerRemaining < makerRemaining ? takerRemaining : makerRemaining;
-
-    // Check if we can meet both minFill requirements
-    if (maxFill < takerMinFill || maxFill < makerMinFill) {
+    const maxFill = takerRemaining < makerAvailable ? takerRemaining : makerAvailable;
+    if (maxFill <= 0n) {
       return 0n;
     }
 
-    return maxFill;
+    const taker = computePartialFill(maxFill, takerRemaining, takerOrder);
+    const maker = computePartialFill(maxFill, makerOrder.remaining, makerOrder);
+    return taker.blockedBy || maker.blockedBy ? 0n : maxFill;
   }
 
   /**
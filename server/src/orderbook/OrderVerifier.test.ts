@@ -0,0 +1,107 @@
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TOKENS } from '@shared/markets/registry';
+import { ORDER_EIP712_DOMAIN, ORDER_EIP712_TYPES, toOrderTypedData, type OrderIntent } from '@shared/types/order';
+import { OrderVerifier, type UsedNonce } from './OrderVerifier';
+import { ETH, PRICE } from './test-fixtures';
+
+const wallet = new ethers.Wallet(`0x${'01'.repeat(32)}`);
+const other = new ethers.Wallet(`0x${'02'.repeat(32)}`);
+
+type UnsignedIntent = Omit<OrderIntent, 'id' | 'signature'>;
+
+const intent: UnsignedIntent = {
+  maker: wallet.address,
+  baseToken: TOKENS.ETH.address,
+  quoteToken: TOKENS.USDC.address,
+  side: 'sell',
+  price: PRICE,
+  size: ETH,
+  minFill: 0n,
+  expiry: 0,
+  channelId: `0x${'ab'.repeat(32)}`,
+  nonce: 'nonce-1',
+};
+
+async function sign(order: UnsignedIntent, signer: ethers.Wallet = wallet): Promise<Omit<OrderIntent, 'id'>> {
+  const signature = await signer._signTypedData(ORDER_EIP712_DOMAIN, ORDER_EIP712_TYPES, toOrderTypedData(order));
+  return { ...order, signature };
+}
+
+describe('OrderVerifier', () => {
+  let verifier: OrderVerifier;
+
+  beforeEach(() => {
+    verifier = new OrderVerifier();
+  });
+
+  it('accepts an order signed by its maker', async () => {
+    const signed = await sign(intent);
+
+    expect(() => verifier.verify(signed)).not.toThrow();
+    expect(verifier.recoverSigner(signed)).toBe(wallet.address);
+  });
+
+  it('accepts a maker address in any case', async () => {
+    const signed = await sign(intent);
+
+    expect(() => verifier.verify({ ...signed, maker: wallet.address.toLowerCase() })).not.toThrow();
+  });
+
+  it('rejects an order signed by someone else', async () => {
+    const signed = await sign(intent, other);
+
+    expect(() => verifier.verify(signed)).toThrow(`Order signature recovers to ${other.address}, not maker ${wallet.address}`);
+  });
+
+  it('rejects an order changed after signing', async () => {
+    const signed = await sign(intent);
+
+    expect(() => verifier.verify({ ...signed, price: PRICE + ETH })).toThrow(/recovers to .*, not maker/);
+    expect(() => verifier.verify({ ...signed, timeInForce: 'IOC' })).toThrow(/recovers to .*, not maker/);
+  });
+
+  it('rejects a missing or malformed signature', async () => {
+    const signed = await sign(intent);
+
+    expect(() => verifier.verify({ ...intent, signature: '' })).toThrow('Order signature missing');
+    expect(() => verifier.verify({ ...intent, signature: '0x1234' })).toThrow(/Invalid order signature/);
+    expect(() => verifier.verify({ ...signed, nonce: '' })).toThrow('Order nonce missing');
+  });
+
+  describe('nonces', () => {
+    it('rejects a nonce once it was marked used', async () => {
+      const signed = await sign(intent);
+      verifier.verify(signed);
+      verifier.markUsed(signed.maker, signed.nonce);
+
+      expect(() => verifier.verify(signed)).toThrow(`Nonce nonce-1 already used by ${wallet.address}`);
+    });
+
+    it('does not burn a nonce on verify alone', async () => {
+      const signed = await sign(intent);
+      verifier.verify(signed);
+
+      expect(verifier.isNonceUsed(signed.maker, signed.nonce)).toBe(false);
+      expect(() => verifier.verify(signed)).not.toThrow();
+    });
+
+    it('tracks nonces per maker, case-insensitively', () => {
+      verifier.markUsed(wallet.address, 'nonce-1');
+
+      expect(verifier.isNonceUsed(wallet.address.toLowerCase(), 'nonce-1')).toBe(true);
+      expect(verifier.isNonceUsed(other.address, 'nonce-1')).toBe(false);
+    });
+
+    it("emits 'used' once per nonce", () => {
+      const used: UsedNonce[] = [];
+      verifier.on('used', (nonce: UsedNonce) => used.push(nonce));
+
+      verifier.markUsed(wallet.address, 'nonce-1');
+      verifier.markUsed(wallet.address.toLowerCase(), 'nonce-1');
+
+      expect(used).toEqual([{ maker: wallet.address.toLowerCase(), nonce: 'nonce-1' }]);
+      expect(verifier.getUsedNonces()).toEqual(used);
+    });
+  });
+});
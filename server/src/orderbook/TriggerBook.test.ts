@@ -0,0 +1,145 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TOKENS } from '@shared/markets/registry';
+import type { OrderRecord, OrderSide, TriggerType } from '@shared/types/order';
+import { setLoggerSilenced } from '../nitrolite/utils/logger';
+import { OrderBook } from './OrderBook';
+import type { OrderMatcher } from './OrderMatcher';
+import { TriggerBook, type TriggerFired, type TriggerRejection } from './TriggerBook';
+import { ALICE, BOB, CAROL, ETH, PRICE, createMatcher, makeOrder } from './test-fixtures';
+
+const BASE = TOKENS.ETH.address;
+const QUOTE = TOKENS.USDC.address;
+
+describe('TriggerBook', () => {
+  let clock: number;
+  let book: OrderBook;
+  let matcher: OrderMatcher;
+  let triggers: TriggerBook;
+
+  beforeAll(() => setLoggerSilenced(true));
+
+  beforeEach(() => {
+    clock = Date.parse('2024-01-01T00:00:00.000Z');
+    book = new OrderBook(undefined, { now: () => clock });
+    matcher = createMatcher(book);
+    triggers = new TriggerBook(book, matcher);
+  });
+
+  afterEach(() => {
+    triggers.close();
+    matcher.close();
+  });
+
+  function trigger(id: string, triggerType: TriggerType, side: OrderSide, triggerPrice: bigint, overrides: Partial<OrderRecord> = {}) {
+    return makeOrder({ id, maker: ALICE, side, triggerType, triggerPrice, price: triggerPrice, ...overrides });
+  }
+
+  describe('firing', () => {
+    beforeEach(() => {
+      triggers.add(trigger('stop-sell', 'stop', 'sell', PRICE - ETH));
+      triggers.add(trigger('stop-buy', 'stop', 'buy', PRICE + ETH));
+      triggers.add(trigger('tp-sell', 'take_profit', 'sell', PRICE + ETH));
+      triggers.add(trigger('tp-buy', 'take_profit', 'buy', PRICE - ETH));
+    });
+
+    it('fires sell stops and buy take-profits when the price falls to them', () => {
+      expect(triggers.onTrade(BASE, QUOTE, PRICE - ETH).map(order => order.id)).toEqual(['stop-sell', 'tp-buy']);
+      expect(triggers.getPending().map(order => order.id)).toEqual(['stop-buy', 'tp-sell']);
+    });
+
+    it('fires buy stops and sell take-profits when the price rises to them', () => {
+      expect(triggers.onTrade(BASE, QUOTE, PRICE + 2n * ETH).map(order => order.id)).toEqual(['stop-buy', 'tp-sell']);
+    });
+
+    it('fires nothing between the triggers or in another market', () => {
+      expect(triggers.onTrade(BASE, QUOTE, PRICE)).toEqual([]);
+      expect(triggers.onTrade(TOKENS.WETH.address, QUOTE, PRICE - 2n * ETH)).toEqual([]);
+      expect(triggers.getPending()).toHaveLength(4);
+      expect(triggers.getLastPrice(BASE, QUOTE)).toBe(PRICE);
+    });
+  });
+
+  it('activates into the book at book time once a committed trade reaches the trigger', async () => {
+    const fired: TriggerFired[] = [];
+    triggers.on('triggered', (event: TriggerFired) => fired.push(event));
+    triggers.add(trigger('stop', 'stop', 'sell', PRICE));
+
+    book.createOrder(makeOrder({ id: 'ask', maker: BOB, side: 'sell' }));
+    const [match] = await matcher.onNewOrder(book.createOrder(makeOrder({ id: 'bid', maker: CAROL, side: 'buy' })));
+    expect(triggers.get('stop')).toBeDefined(); // A reservation alone moves no price
+
+    clock += 1000;
+    matcher.markTradeSubmitted(match.tradeId);
+    matcher.commitTrade(match.tradeId);
+
+    const activated = book.getOrder('stop')!.order;
+    expect(fired.map(event => event.lastPrice)).toEqual([PRICE]);
+    expect(activated).toMatchObject({ status: 'open', triggeredAt: new Date(clock).toISOString() });
+    expect(activated.createdAt).toBe(activated.triggeredAt);
+    expect(triggers.get('stop')).toBeUndefined();
+  });
+
+  it('reports an order the book refuses on activation', () => {
+    const rejected: TriggerRejection[] = [];
+    triggers.on('rejected', (event: TriggerRejection) => rejected.push(event));
+    const expiry = clock / 1000 + 10;
+    triggers.add(trigger('gtd', 'stop', 'sell', PRICE, { timeInForce: 'GTD', expiry }));
+
+    clock += 20_000;
+
+    expect(triggers.onTrade(BASE, QUOTE, PRICE)).toEqual([]);
+    expect(rejected.map(event => [event.order.status, event.reason])).toEqual([['cancelled', 'Order expiry must be in the future']]);
+    expect(book.getOrder('gtd')).toBeUndefined();
+  });
+
+  describe('add', () => {
+    it('refuses a trigger the last price already reached', () => {
+      triggers.onTrade(BASE, QUOTE, PRICE);
+
+      expect(() => triggers.add(trigger('stop', 'stop', 'sell', PRICE + ETH))).toThrow(/already reached/);
+      expect(triggers.add(trigger('stop', 'stop', 'sell', PRICE - ETH)).id).toBe('stop');
+    });
+
+    it('validates the trigger before holding the order', () => {
+      expect(() => triggers.add(trigger('bad', 'stop', 'sell', 0n))).toThrow('Trigger price must be positive');
+      expect(() => triggers.add(trigger('off', 'stop', 'sell', PRICE + 1n))).toThrow(/tick size/);
+      expect(() => triggers.add(trigger('type', 'trailing' as TriggerType, 'sell', PRICE))).toThrow(/Unsupported triggerType/);
+      expect(() => triggers.add(trigger('late', 'stop', 'sell', PRICE, { timeInForce: 'GTD', expiry: clock / 1000 }))).toThrow(
+        'Order expiry must be in the future'
+      );
+
+      triggers.add(trigger('dup', 'stop', 'sell', PRICE));
+      expect(() => triggers.add(trigger('dup', 'stop', 'sell', PRICE))).toThrow('Order dup already exists');
+    });
+  });
+
+  it('expires pending orders on the book clock', () => {
+    triggers.add(trigger('gtd', 'stop', 'sell', PRICE, { timeInForce: 'GTD', expiry: clock / 1000 + 10 }));
+    triggers.add(trigger('gtc', 'stop', 'sell', PRICE));
+
+    expect(triggers.expireDue()).toEqual([]);
+    clock += 10_000;
+
+    expect(triggers.expireDue().map(order => [order.id, order.status])).toEqual([['gtd', 'expired']]);
+    expect(triggers.getPending().map(order => order.id)).toEqual(['gtc']);
+  });
+
+  it('lets only the maker cancel', () => {
+    triggers.add(trigger('a', 'stop', 'sell', PRICE));
+    triggers.add(trigger('b', 'stop', 'sell', PRICE, { baseToken: TOKENS.WETH.address }));
+
+    expect(() => triggers.cancel('a', BOB)).toThrow('Only maker can cancel order');
+    expect(triggers.cancelAll(ALICE, BASE, QUOTE).map(order => order.id)).toEqual(['a']);
+    expect(triggers.cancelAll(ALICE).map(order => order.status)).toEqual(['cancelled']);
+    expect(triggers.getPending()).toEqual([]);
+  });
+
+  it('restores pending orders, skipping those already activated', () => {
+    book.createOrder({ ...trigger('activated', 'stop', 'sell', PRICE), triggeredAt: new Date(clock).toISOString() });
+
+    triggers.restore([trigger('waiting', 'stop', 'sell', PRICE), trigger('activated', 'stop', 'sell', PRICE)]);
+
+    expect(triggers.getPending().map(order => order.id)).toEqual(['waiting']);
+    expect(() => triggers.restore([])).toThrow('Trigger book must be empty to restore');
+  });
+});
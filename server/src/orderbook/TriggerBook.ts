@@ -0,0 +1,270 @@
+/**
+ * ============================================================================
+ * TRIGGER BOOK (STOP / TAKE-PROFIT ORDERS)
+ * ============================================================================
+ *
+ * Holds conditional orders off the book until the last traded price
+ * reaches their trigger, then activates them into the OrderBook
+ *
+ * ORDER KINDS (triggerType + orderType):
+ * - stop + market:        stop-market
+ * - stop + limit:         stop-limit
+ * - take_profit + market: take-profit
+ * - take_profit + limit:  take-profit-limit
+ *
+ * EVENTS:
+ * - 'placed':    order accepted into the trigger book
+ * - 'triggered': last price reached the trigger ({ order, lastPrice })
+ * - 'activated': order entered the OrderBook and was queued for matching
+ * - 'rejected':  the OrderBook refused the order on activation ({ order, reason })
+ * - 'cancelled': pending order cancelled by its maker
+ * - 'expired':   pending order reached its expiry (see expireDue)
+ *
+ * Timestamps and expiry checks use the book clock (OrderBook.now()).
+ *
+ * The last price per market comes from OrderMatcher 'committed' events, so
+ * only trades ClearNode confirmed move it; a reservation that is released
+ * unsigned never fires a trigger.
+ * ============================================================================
+ */
+
+import { EventEmitter } from 'events';
+import { TRIGGER_TYPES, type OrderRecord } from '@shared/types/order';
+import { validateOrderGrid } from '@shared/markets/registry';
+import type { FillReservation, OrderBook } from './OrderBook';
+import type { OrderMatcher } from './OrderMatcher';
+import { marketKey } from './MarketBook';
+import { logger } from '../nitrolite/utils/logger';
+
+export interface TriggerFired {
+  order: OrderRecord;
+  lastPrice: bigint;
+}
+
+export interface TriggerRejection {
+  order: OrderRecord;
+  reason: string;
+}
+
+export class TriggerBook extends EventEmitter {
+  private pending = new Map<string, OrderRecord>(); // By order id, in placement order
+  private lastPrices = new Map<string, bigint>(); // By market key
+  private readonly onCommitted = (reservation: FillReservation) => {
+    // Trades execute at the maker's price
+    const maker = this.orderBook.getOrder(reservation.makerOrderId)?.order;
+    if (maker) {
+      this.onTrade(maker.baseToken, maker.quoteToken, maker.price);
+    }
+  };
+
+  constructor(
+    private orderBook: OrderBook,
+    private matcher: OrderMatcher
+  ) {
+    super();
+    this.matcher.on('committed', this.onCommitted);
+  }
+
+  /**
+   * Accept a trigger order. It must not already be triggered by the last
+   * traded price.
+   */
+  add(order: OrderRecord): OrderRecord {
+    const { triggerType, triggerPrice } = order;
+
+    if (triggerType === undefined || !TRIGGER_TYPES.includes(triggerType)) {
+      throw new Error(`Unsupported triggerType: ${triggerType}`);
+    }
+    if (triggerPrice === undefined || triggerPrice <= 0n) {
+      throw new Error('Trigger price must be positive');
+    }
+    if (this.pending.has(order.id) || this.orderBook.getOrder(order.id)) {
+      throw new Error(`Order ${order.id} already exists`);
+    }
+    if (order.expiry !== 0 && order.expiry * 1000 <= this.orderBook.now()) {
+      throw new Error('Order expiry must be in the future');
+    }
+
+    // Full validation happens on activation; catch grid errors up front
+    const market = this.orderBook.getMarketConfig(order.baseToken, order.quoteToken);
+    const gridError =
+      validateOrderGrid(market, { price: triggerPrice, size: order.size, minFill: order.minFill }) ??
+      (order.price > 0n ? validateOrderGrid(market, order) : undefined);
+    if (gridError) {
+      throw new Error(gridError);
+    }
+
+    const lastPrice = this.getLastPrice(order.baseToken, order.quoteToken);
+    if (lastPrice !== undefined && this.isTriggered(order, lastPrice)) {
+      throw new Error(`Trigger price ${triggerPrice} already reached (last price ${lastPrice})`);
+    }
+
+    this.pending.set(order.id, order);
+    this.emit('placed', order);
+
+    logger.info(`Trigger order ${order.id} placed: ${triggerType} ${order.side} at ${triggerPrice}`);
+    return order;
+  }
+
+  /**
+   * Put back the pending orders of a recovered journal, on an empty
+   * trigger book. Orders already in the book were activated just before a
+   * crash and are skipped.
+   */
+  restore(orders: OrderRecord[]): void {
+    if (this.pending.size > 0) {
+      throw new Error('Trigger book must be empty to restore');
+    }
+    for (const order of orders) {
+      if (!this.orderBook.getOrder(order.id)) {
+        this.pending.set(order.id, { ...order });
+      }
+    }
+  }
+
+  get(orderId: string): OrderRecord | undefined {
+    return this.pending.get(orderId);
+  }
+
+  /**
+   * Pending trigger orders, optionally for one maker
+   */
+  getPending(maker?: string): OrderRecord[] {
+    const orders = Array.from(this.pending.values());
+    return maker === undefined
+      ? orders
+      : orders.filter(order => order.maker.toLowerCase() === maker.toLowerCase());
+  }
+
+  getLastPrice(baseToken: string, quoteToken: string): bigint | undefined {
+    return this.lastPrices.get(marketKey(baseToken, quoteToken));
+  }
+
+  /**
+   * Cancel a pending trigger order
+   */
+  cancel(orderId: string, maker: string): OrderRecord {
+    const order = this.pending.get(orderId);
+    if (!order) {
+      throw new Error(`Trigger order ${orderId} not found`);
+    }
+    if (order.maker.toLowerCase() !== maker.toLowerCase()) {
+      throw new Error('Only maker can cancel order');
+    }
+
+    this.pending.delete(orderId);
+    const cancelled: OrderRecord = { ...order, status: 'cancelled', updatedAt: this.timestamp() };
+    this.emit('cancelled', cancelled);
+
+    logger.warn(`Trigger order ${orderId} cancelled by maker`);
+    return cancelled;
+  }
+
+  /**
+   * Cancel every pending trigger order of a maker, optionally in one market
+   */
+  cancelAll(maker: string, baseToken?: string, quoteToken?: string): OrderRecord[] {
+    const key = baseToken !== undefined && quoteToken !== undefined ? marketKey(baseToken, quoteToken) : undefined;
+
+    return this.getPending(maker)
+      .filter(order => key === undefined || marketKey(order.baseToken, order.quoteToken) === key)
+      .map(order => this.cancel(order.id, maker));
+  }
+
+  /**
+   * Drop every pending order whose expiry has passed at `nowMs` (book
+   * clock by default), like OrderBook.getExpiredOrders for resting orders
+   */
+  expireDue(nowMs: number = this.orderBook.now()): OrderRecord[] {
+    const due = Array.from(this.pending.values()).filter(
+      order => order.expiry !== 0 && order.expiry * 1000 <= nowMs
+    );
+
+    return due.map(order => {
+      this.pending.delete(order.id);
+      const expired: OrderRecord = { ...order, status: 'expired', updatedAt: this.timestamp() };
+      this.emit('expired', expired);
+
+      logger.info(`Trigger order ${order.id} expired`);
+      return expired;
+    });
+  }
+
+  /**
+   * Record a trade price and activate every order it triggers
+   */
+  onTrade(baseToken: string, quoteToken: string, price: bigint): OrderRecord[] {
+    const key = marketKey(baseToken, quoteToken);
+    this.lastPrices.set(key, price);
+
+    const fired = Array.from(this.pending.values()).filter(
+      order => marketKey(order.baseToken, order.quoteToken) === key && this.isTriggered(order, price)
+    );
+
+    const activated: OrderRecord[] = [];
+    for (const order of fired) {
+      if (!this.pending.has(order.id)) continue;
+      const placed = this.activate(order, price);
+      if (placed) activated.push(placed);
+    }
+    return activated;
+  }
+
+  /**
+   * Stop following the matcher
+   */
+  close(): void {
+    this.matcher.off('committed', this.onCommitted);
+  }
+
+  private timestamp(): string {
+    return new Date(this.orderBook.now()).toISOString();
+  }
+
+  /**
+   * Stops fire when price moves against the position (buy: up, sell: down),
+   * take-profits when it moves in its favour
+   */
+  private isTriggered(order: OrderRecord, lastPrice: bigint): boolean {
+    const triggerPrice = order.triggerPrice!;
+    const risesToTrigger = (order.triggerType === 'stop') === (order.side === 'buy');
+    return risesToTrigger ? lastPrice >= triggerPrice : lastPrice <= triggerPrice;
+  }
+
+  private activate(order: OrderRecord, lastPrice: bigint): OrderRecord | undefined {
+    this.pending.delete(order.id);
+
+    const fired: TriggerFired = { order, lastPrice };
+    this.emit('triggered', fired);
+    logger.info(`Trigger order ${order.id} triggered at ${lastPrice}`);
+
+    // Activated orders queue behind everything already in the book
+    const now = this.timestamp();
+    let placed: OrderRecord;
+    try {
+      placed = this.orderBook.createOrder({
+        ...order,
+        status: 'open',
+        remaining: order.size,
+        createdAt: now,
+        updatedAt: now,
+        triggeredAt: now,
+      });
+    } catch (error) {
+      const rejection: TriggerRejection = {
+        order: { ...order, status: 'cancelled', updatedAt: now },
+        reason: error instanceof Error ? error.message : String(error),
+      };
+      logger.warn(`Trigger order ${order.id} rejected on activation: ${rejection.reason}`);
+      this.emit('rejected', rejection);
+      return undefined;
+    }
+
+    this.emit('activated', placed);
+    this.matcher.onNewOrder(placed).catch((error) => {
+      logger.error(`Matching failed for activated order ${placed.id}`, error);
+    });
+
+    return placed;
+  }
+}
@@ -15,9 +15,9 @@ import type { OrderRecord } from '@shared/types/order';
 const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
 const WETH = '0x4200000000000000000000000000000000000006';
 
-export async function exampleUsage(nitroliteClient: any) {
+export async function exampleUsage() {
   const orderBook = new OrderBook();
-  const api = new OrderBookAPI(orderBook, nitroliteClient);
+  const api = new OrderBookAPI(orderBook);
 
   // ============================================================================
   // EXAMPLE 1: User creates SELL order (selling ETH for USDC)
@@ -51,40 +51,36 @@ export async function exampleUsage(nitroliteClient: any) {
   // EXAMPLE 2: Another user partially fills the order
   // ============================================================================
   console.log('\n💰 EXAMPLE 2: Partial fill (3 ETH)');
-  
-  const taker1 = '0x41Ad4f7A089e1e2cbF43250325aC482823987e6A';
-  const fillAmount1 = 3n * 10n**18n; // Buy 3 ETH
-  
-  const trade1 = await api.fillOrder('order-001', taker1, fillAmount1);
-  
-  console.log('✅ Trade created:', {
-    tradeId: trade1.tradeId,
-    filled: '3 ETH',
-    cost: '9,000 USDC',
-    remaining: '7 ETH',
+
+  // Takers fill by placing a signed order that crosses the book. The server
+  // hands it to OrderMatcher.onNewOrder, which reserves 3 ETH of order-001,
+  // creates the trade session and records the fill once both sides signed.
+  const takerOrder = await api.createOrder({
+    id: 'order-004',
+    maker: '0x41Ad4f7A089e1e2cbF43250325aC482823987e6A',
+    baseToken: WETH,           // Buying ETH
+    quoteToken: USDC,          // Paying USDC
+    side: 'buy',
+    price: 3000n * 10n**18n,   // Crosses order-001
+    size: 3n * 10n**18n,       // Buy 3 ETH
+    minFill: 3n * 10n**18n,
+    expiry: 0,
+    timeInForce: 'IOC',        // Nothing rests if it does not fill
+    channelId: '0xchannelid321',
+    nonce: `${Date.now()}-004`,
+    signature: '0xsignature...',
   });
 
-  // ============================================================================
-  // EXAMPLE 3: Another taker fills more
-  // ============================================================================
-  console.log('\n💰 EXAMPLE 3: Another partial fill (5 ETH)');
-  
-  const taker2 = '0x52Bd4f7B099e1f3cbF54360325aC583923997f8C';
-  const fillAmount2 = 5n * 10n**18n; // Buy 5 ETH
-  
-  const trade2 = await api.fillOrder('order-001', taker2, fillAmount2);
-  
-  console.log('✅ Trade created:', {
-    tradeId: trade2.tradeId,
-    filled: '5 ETH',
-    cost: '15,000 USDC',
-    remaining: '2 ETH',
+  console.log('✅ Taker order placed:', {
+    id: takerOrder.id,
+    buying: '3 ETH',
+    cost: '9,000 USDC',
   });
 
   // ============================================================================
-  // EXAMPLE 4: User creates BUY order (buying ETH with USDC)
+  // EXAMPLE 3: User creates BUY order (buying ETH with USDC)
   // ============================================================================
-  console.log('\n📝 EXAMPLE 4: Create BUY order (USDC → ETH)');
+  console.log('\n📝 EXAMPLE 3: Create BUY order (USDC → ETH)');
   
   const buyOrder = await api.createOrder({
     id: 'order-002',
@@ -110,9 +106,9 @@ export async function exampleUsage(nitroliteClient: any) {
   });
 
   // ============================================================================
-  // EXAMPLE 5: Same-asset swap (USDC for USDC)
+  // EXAMPLE 4: Same-asset swap (USDC for USDC)
   // ============================================================================
-  console.log('\n📝 EXAMPLE 5: Same-asset swap (USDC ↔ USDC)');
+  console.log('\n📝 EXAMPLE 4: Same-asset swap (USDC ↔ USDC)');
   
   const swapOrder = await api.createOrder({
     id: 'order-003',
@@ -136,9 +132,9 @@ export async function exampleUsage(nitroliteClient: any) {
   });
 
   // ============================================================================
-  // EXAMPLE 6: Find matching orders
+  // EXAMPLE 5: Find matching orders
   // ============================================================================
-  console.log('\n🔍 EXAMPLE 6: Find matching orders');
+  console.log('\n🔍 EXAMPLE 5: Find matching orders');
   
   const matches = api.findMatches({
     side: 'buy',              // I want to buy
@@ -158,9 +154,9 @@ export async function exampleUsage(nitroliteClient: any) {
   });
 
   // ============================================================================
-  // EXAMPLE 7: Get orderbook stats
+  // EXAMPLE 6: Get orderbook stats
   // ============================================================================
-  console.log('\n📊 EXAMPLE 7: Orderbook statistics');
+  console.log('\n📊 EXAMPLE 6: Orderbook statistics');
   
   const stats = api.getStats();
   console.log('✅ Stats:', {
@@ -172,9 +168,9 @@ export async function exampleUsage(nitroliteClient: any) {
   });
 
   // ============================================================================
-  // EXAMPLE 8: Cancel an order
+  // EXAMPLE 7: Cancel an order
   // ============================================================================
-  console.log('\n❌ EXAMPLE 8: Cancel order');
+  console.log('\n❌ EXAMPLE 7: Cancel order');
   
   const makerAddress = '0x74Fe6c1B190f1f5cbF74370525aC695924118f9D';
   const cancelled = api.cancelOrder('order-003', makerAddress);
@@ -0,0 +1,86 @@
+/**
+ * ============================================================================
+ * ORDER BOOK TEST FIXTURES
+ * ============================================================================
+ *
+ * Orders, a matcher with a stubbed ClearNode client and a scripted trading
+ * session, shared by the orderbook specs (*.test.ts)
+ * ============================================================================
+ */
+
+import { TOKENS } from '@shared/markets/registry';
+import type { OrderRecord } from '@shared/types/order';
+import type { NitroliteClient } from '../nitrolite/client';
+import { InMemoryTradeSessionStore } from '../nitrolite/session-storage';
+import type { OrderBook } from './OrderBook';
+import { OrderMatcher } from './OrderMatcher';
+
+export const ETH = 10n ** 18n;
+export const PRICE = 3000n * 10n ** 18n;
+
+export const ALICE = '0x00000000000000000000000000000000000a11ce';
+export const BOB = '0x0000000000000000000000000000000000000b0b';
+export const CAROL = '0x00000000000000000000000000000000000ca401';
+
+// Enough of NitroliteClient for generateTradeSessionMessage
+export const clearNode = {
+  isConnected: true,
+  address: '0x0000000000000000000000000000000000000001',
+  sessionMessageSigner: async () => `0x${'11'.repeat(65)}`,
+} as unknown as NitroliteClient;
+
+let nonce = 0;
+
+/**
+ * Open GTC order on ETH/USDC at PRICE, 1 ETH unless overridden
+ */
+export function makeOrder(overrides: Partial<OrderRecord> & Pick<OrderRecord, 'id' | 'maker' | 'side'>): OrderRecord {
+  const size = overrides.size ?? ETH;
+  return {
+    baseToken: TOKENS.ETH.address,
+    quoteToken: TOKENS.USDC.address,
+    price: PRICE,
+    size,
+    remaining: size,
+    minFill: 0n,
+    expiry: 0,
+    timeInForce: 'GTC',
+    channelId: '0x01',
+    nonce: String(++nonce),
+    signature: '0x',
+    status: 'open',
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Matcher over `book` whose sessions are generated but never sent. Close
+ * it after the test, it keeps reservation timers.
+ */
+export function createMatcher(book: OrderBook): OrderMatcher {
+  return new OrderMatcher(book, clearNode, new InMemoryTradeSessionStore());
+}
+
+/**
+ * Trade through the matcher: a committed trade, a released one (whose IOC
+ * taker is cancelled), an amend, a cancel and a reservation left open
+ */
+export async function runTradingSession(book: OrderBook, matcher: OrderMatcher): Promise<void> {
+  book.createOrder(makeOrder({ id: 'ask-1', maker: ALICE, side: 'sell', size: 2n * ETH }));
+  book.createOrder(makeOrder({ id: 'ask-2', maker: CAROL, side: 'sell', price: PRICE + 10n * ETH }));
+
+  const [committed] = await matcher.onNewOrder(book.createOrder(makeOrder({ id: 'bid-1', maker: BOB, side: 'buy' })));
+  matcher.markTradeSubmitted(committed.tradeId);
+  matcher.commitTrade(committed.tradeId);
+
+  const ioc = makeOrder({ id: 'bid-2', maker: BOB, side: 'buy', size: ETH / 2n, timeInForce: 'IOC' });
+  const [released] = await matcher.onNewOrder(book.createOrder(ioc));
+  matcher.releaseTrade(released.tradeId, 'maker did not sign');
+
+  book.amendOrder('ask-2', CAROL, { size: 3n * ETH, nonce: 'amend-1', signature: '0x' });
+  book.cancelOrder('ask-2', CAROL);
+
+  await matcher.onNewOrder(book.createOrder(makeOrder({ id: 'bid-3', maker: BOB, side: 'buy', size: ETH / 4n })));
+}
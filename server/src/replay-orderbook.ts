@@ -0,0 +1,212 @@
+/**
+ * ============================================================================
+ * ORDER BOOK REPLAY TOOL
+ * ============================================================================
+ *
+ * Rebuilds the order book offline by re-executing the commands of a
+ * journal (see orderbook/OrderBookReplay). --diff also re-runs the matcher
+ * after every order and compares its reservations with the recorded ones.
+ *
+ * USAGE:
+ *   npm run replay -- <store dir | journal .jsonl>... [options]
+ *
+ * A store directory (ORDERBOOK_STORE_DIR) expands to its archived segments
+ * and live journal. Files are read in the order given.
+ *
+ * OPTIONS:
+ *   --until <seq>     Stop after the command at or before record <seq>
+ *   --diff            Compare every command's effects, every matcher
+ *                     pass's reservations and the final book with the
+ *                     journal; exits 1 on any divergence
+ *   --self-trade-prevention <mode>
+ *                     Default mode the live matcher ran with, for --diff
+ *   --trade <tradeId> Print the commands, changes and fill record updates
+ *                     of one trade instead of the book
+ * ============================================================================
+ */
+
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { SELF_TRADE_PREVENTION_MODES, type SelfTradePrevention } from '@shared/types/order';
+import { decodeJson, encodeJson } from './lib/json-codec';
+import { setLoggerSilenced } from './nitrolite/utils/logger';
+import { FileOrderBookStore } from './orderbook/FileOrderBookStore';
+import {
+  normalizeState,
+  replayCommands,
+  replayMatching,
+  type CommandReplay,
+  type MatchingReplay,
+} from './orderbook/OrderBookReplay';
+import { replayJournal, type JournalRecord } from './orderbook/OrderBookStore';
+
+interface ReplayArgs {
+  paths: string[];
+  untilSeq?: number;
+  diff: boolean;
+  tradeId?: string;
+  selfTradePrevention?: SelfTradePrevention;
+}
+
+function parseArgs(argv: string[]): ReplayArgs {
+  const args: ReplayArgs = { paths: [], diff: false };
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '--diff') {
+      args.diff = true;
+    } else if (arg === '--until') {
+      args.untilSeq = Number(argv[++index]);
+      if (!Number.isInteger(args.untilSeq)) {
+        throw new Error('--until needs a record number');
+      }
+    } else if (arg === '--trade') {
+      args.tradeId = argv[++index];
+      if (!args.tradeId) {
+        throw new Error('--trade needs a trade id');
+      }
+    } else if (arg === '--self-trade-prevention') {
+      const mode = argv[++index] as SelfTradePrevention;
+      if (!SELF_TRADE_PREVENTION_MODES.includes(mode)) {
+        throw new Error(`--self-trade-prevention needs one of ${SELF_TRADE_PREVENTION_MODES.join(', ')}`);
+      }
+      args.selfTradePrevention = mode;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      args.paths.push(arg);
+    }
+  }
+
+  if (args.paths.length === 0) {
+    throw new Error(
+      'Usage: npm run replay -- <store dir | journal .jsonl>... [--until <seq>] [--diff] [--trade <tradeId>] ' +
+        '[--self-trade-prevention <mode>]'
+    );
+  }
+  return args;
+}
+
+// Read journal records from files and store directories, skipping records
+// seen before (an archive and the live log overlap after a crash)
+function readRecords(paths: string[]): JournalRecord[] {
+  const files = paths.flatMap(target => {
+    if (!existsSync(target)) {
+      throw new Error(`${target} does not exist`);
+    }
+    return statSync(target).isDirectory() ? new FileOrderBookStore(target).journalFiles() : [target];
+  });
+
+  const records: JournalRecord[] = [];
+  for (const file of files) {
+    for (const line of readFileSync(file, 'utf-8').split('\n')) {
+      if (line.trim() === '') continue;
+      const record = decodeJson<JournalRecord>(line);
+      if (records.length === 0 || record.seq > records[records.length - 1].seq) {
+        records.push(record);
+      }
+    }
+  }
+  return records;
+}
+
+// JSON with bigint values as decimal strings
+function print(value: unknown): void {
+  console.log(JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v), 2));
+}
+
+function printBook(replay: CommandReplay): void {
+  const state = normalizeState(replay.book.exportState());
+  print({
+    lastSeq: replay.lastSeq,
+    commands: replay.steps.length,
+    rejected: replay.steps.filter(step => step.rejection !== undefined).length,
+    stats: replay.book.getStats(),
+    orders: state.orders.map(entry => ({
+      ...entry.order,
+      reserved: entry.reserved,
+      displayed: entry.displayed,
+      active: state.activeOrders.includes(entry.order.id),
+      fills: entry.fills,
+    })),
+    reservations: state.reservations,
+  });
+}
+
+function printTrade(replay: CommandReplay, records: JournalRecord[], tradeId: string): void {
+  const mentions = (value: unknown) => encodeJson(value).includes(`"${tradeId}"`);
+
+  print({
+    tradeId,
+    steps: replay.steps
+      .filter(step => mentions(step.command) || mentions(step.replayed))
+      .map(step => ({
+        seq: step.seq,
+        at: new Date(step.at).toISOString(),
+        command: step.command,
+        changes: step.replayed,
+        rejection: step.rejection,
+      })),
+    fillRecords: records.flatMap(record =>
+      record.type === 'trade' && record.fill.id === tradeId && record.seq <= replay.lastSeq
+        ? [{ seq: record.seq, ...record.fill }]
+        : []
+    ),
+  });
+}
+
+function printDiff(replay: CommandReplay, matching: MatchingReplay, records: JournalRecord[]): boolean {
+  for (const divergence of replay.divergences) {
+    console.log(`✗ record ${divergence.seq} (${divergence.command}): ${divergence.message}`);
+  }
+  for (const divergence of matching.divergences) {
+    console.log(`✗ record ${divergence.seq} (${divergence.command}, matching): ${divergence.message}`);
+  }
+
+  const recorded = replayJournal(undefined, records.filter(record => record.seq <= replay.lastSeq));
+  const stateMatches =
+    encodeJson(normalizeState(recorded.book)) === encodeJson(normalizeState(replay.book.exportState()));
+  if (!stateMatches) {
+    console.log('✗ final book differs from the recorded changes');
+  }
+
+  const clean = replay.divergences.length === 0 && matching.divergences.length === 0 && stateMatches;
+  if (clean) {
+    console.log(
+      `✓ ${replay.steps.length} commands and ${matching.passes.length} matcher passes replayed ` +
+        `up to record ${replay.lastSeq}, no divergence`
+    );
+  }
+  return clean;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  setLoggerSilenced(true);
+
+  const records = readRecords(args.paths);
+  if (records.length > 0 && records[0].seq !== 1) {
+    throw new Error(`Journal starts at record ${records[0].seq}; pass the archived segments before it`);
+  }
+  const replay = replayCommands(records, { untilSeq: args.untilSeq });
+
+  if (args.tradeId) {
+    printTrade(replay, records, args.tradeId);
+  } else if (!args.diff) {
+    printBook(replay);
+  }
+
+  if (args.diff) {
+    const matching = await replayMatching(records, {
+      untilSeq: args.untilSeq,
+      selfTradePrevention: args.selfTradePrevention,
+    });
+    if (!printDiff(replay, matching, records)) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+});
@@ -1,19 +1,43 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import { createServer } from 'http';
-import { OrderBook } from './orderbook/OrderBook';
-import { OrderMatcher } from './orderbook/OrderMatcher';
-import { NitroliteClient, EventBus } from './nitrolite';
+import { OrderBook, type OrderAmendment } from './orderbook/OrderBook';
+import {
+  OrderMatcher,
+  type MarketOrderExecution,
+  type SelfTradePrevented,
+  type TimeInForceCancellation,
+  type TradeReleased,
+} from './orderbook/OrderMatcher';
+import type { FillReservation } from './orderbook/OrderBook';
+import { DepthFeed, type DepthDelta } from './orderbook/DepthFeed';
+import { ExpirySweeper } from './orderbook/ExpirySweeper';
+import { OrderBookJournal } from './orderbook/OrderBookJournal';
+import { InMemoryOrderBookStore } from './orderbook/OrderBookStore';
+import { FileOrderBookStore } from './orderbook/FileOrderBookStore';
+import { TriggerBook, type TriggerFired, type TriggerRejection } from './orderbook/TriggerBook';
+import { marketKey, publicOrderView } from './orderbook/MarketBook';
+import { bookChannel, ordersChannel, parseChannel, tradesChannel, wildcardFor } from './lib/channels';
+import { WalletAuthenticator } from './lib/wallet-auth';
+import { OrderVerifier } from './orderbook/OrderVerifier';
+import { OrderBookAPI } from './orderbook/OrderBookAPI';
+import { OrderBookRouter } from './orderbook/OrderBookRouter';
+import { NitroliteClient, EventBus, type Hex } from './nitrolite';
 import { loadEnv } from './config/env';
-import type { OrderRecord } from '@shared/types/order';
-import { createClient } from '@supabase/supabase-js';
+import { isIceberg, restsOnBook, type OrderRecord } from '@shared/types/order';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import type { ChannelInfo } from './nitrolite/client';
-import { getPendingSession, setPendingSession } from './nitrolite/session-storage';
-import { createAppSessionMessage } from '@erc7824/nitrolite';
+import { InMemoryTradeSessionStore, type PendingAppSession, type TradeSessionStore } from './nitrolite/session-storage';
+import { FileTradeSessionStore } from './nitrolite/file-session-storage';
+import { toActiveTradeSession } from './nitrolite/sign-sessions';
+import { SigningDeadlineSweeper, type ExpiredTradeSession } from './nitrolite/signing-deadlines';
+import { SessionSignatureError, SessionSignatureVerifier } from './nitrolite/session-signatures';
+import { createAppSessionMessage, RPCMethod, type RPCData } from '@erc7824/nitrolite';
 
 interface ClientConnection {
   ws: WebSocket;
   address?: string;
   isAlive: boolean;
+  subscriptions: Set<string>; // Normalized channel names (see lib/channels)
 }
 
 const PORT = process.env.WS_PORT || 8080;
@@ -22,10 +46,22 @@ const clients = new Map<string, ClientConnection>();
 // Global instances
 let orderBook: OrderBook;
 let orderMatcher: OrderMatcher;
+let depthFeed: DepthFeed;
+let expirySweeper: ExpirySweeper;
+let orderBookJournal: OrderBookJournal;
+let triggerBook: TriggerBook;
+let signingDeadlines: SigningDeadlineSweeper;
+let tradeSessions: TradeSessionStore;
+let walletAuth: WalletAuthenticator;
+const orderVerifier = new OrderVerifier();
+const sessionSignatures = new SessionSignatureVerifier();
 let nitroliteClient: NitroliteClient;
-let supabase: ReturnType<typeof createClient>;
+let supabase: SupabaseClient;
 let availableChannels: ChannelInfo[] = [];
 
+// Book time; signing deadlines are set, checked and swept against it
+const now = (): number => orderBook.now();
+
 export async function startWebSocketServer() {
   // Initialize Supabase client
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || process.env.SUPABASE_URL;
@@ -40,6 +76,13 @@ export async function startWebSocketServer() {
 
   // Initialize Nitrolite client
   const env = loadEnv();
+  walletAuth = new WalletAuthenticator({
+    domain: env.server.authDomain,
+    uri: env.server.authUri,
+    chainId: env.yellow.chainId,
+    challengeTtlMs: env.server.authChallengeTtlMs,
+  });
+
   const events = new EventBus();
   nitroliteClient = new NitroliteClient(env.yellow, events);
   
@@ -67,43 +110,60 @@ export async function startWebSocketServer() {
     console.warn('⚠️  Could not fetch channels, will use placeholder');
   }
 
+  // One session store shared by the matcher, signing and ClearNode submission
+  tradeSessions = env.server.tradeSessionStore === 'file'
+    ? new FileTradeSessionStore(env.server.tradeSessionStorePath, { now })
+    : new InMemoryTradeSessionStore({ now });
+  console.log(`🗄️  Trade sessions: ${env.server.tradeSessionStore} store (${tradeSessions.getStats().totalSessions} loaded)`);
+
   // Initialize OrderBook and Matcher
   orderBook = new OrderBook();
-  orderMatcher = new OrderMatcher(orderBook, nitroliteClient);
+  orderMatcher = new OrderMatcher(orderBook, nitroliteClient, tradeSessions, {
+    reservationTimeoutMs: env.server.tradeReservationTimeoutMs,
+    signingTimeoutMs: env.server.sessionSigningTimeoutMs,
+  });
+
+  // Stop and take-profit orders wait off the book for their trigger price
+  triggerBook = new TriggerBook(orderBook, orderMatcher);
 
-  // Listen for match events
+  // Rebuild the book from its journal before anything can change it
+  orderBookJournal = new OrderBookJournal(
+    env.server.orderBookStore === 'file'
+      ? new FileOrderBookStore(env.server.orderBookStoreDir)
+      : new InMemoryOrderBookStore(),
+    orderBook,
+    orderMatcher,
+    { snapshotEvery: env.server.orderBookSnapshotEvery, verifier: orderVerifier, triggerBook }
+  );
+  const recovery = orderBookJournal.recover();
+  orderBookJournal.start();
+  console.log(
+    `🗄️  Order book: ${env.server.orderBookStore} store (${recovery.activeOrders} active orders, ` +
+      `${recovery.reservations} reserved trades, ${recovery.triggers} trigger orders, ` +
+      `${recovery.replayed} records replayed)`
+  );
+  depthFeed = new DepthFeed(orderBook);
+
+  // Stream sequenced depth changes to book subscribers
+  depthFeed.on('delta', (delta: DepthDelta) => {
+    publish([`book:${delta.market}`], {
+      type: 'orderbook.delta',
+      data: delta,
+      timestamp: Date.now(),
+    });
+  });
+
+  // Listen for match events (the matched quantity is reserved until the
+  // trade's session is submitted)
   orderMatcher.on('match', async (match) => {
     console.log(`💱 Match created: ${match.tradeId}`);
-    
-    // Update order statuses in Supabase
-    if (supabase) {
-      try {
-        // Update maker order
-        await supabase
-          .from('orders')
-          .update({ 
-            status: 'filled',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', match.makerOrderId);
-        
-        // Update taker order
-        await supabase
-          .from('orders')
-          .update({ 
-            status: 'filled',
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', match.takerOrderId);
-        
-        console.log('✅ Order statuses updated in database');
-      } catch (error) {
-        console.error('❌ Failed to update order statuses:', error);
-      }
-    }
-    
-    // Broadcast match to all clients
-    broadcast({
+
+    // Publish match to the market's trade feed and both parties
+    publish([
+      tradesChannel(match.baseToken, match.quoteToken),
+      ordersChannel(match.makerAddress),
+      ordersChannel(match.takerAddress),
+    ], {
       type: 'trade.matched',
       data: {
         tradeId: match.tradeId,
@@ -119,8 +179,188 @@ export async function startWebSocketServer() {
     });
   });
 
+  // Session submitted: the reserved quantity becomes a fill
+  orderMatcher.on('committed', async (reservation: FillReservation) => {
+    console.log(`✅ Trade ${reservation.tradeId} committed`);
+
+    // Update order statuses in Supabase
+    if (supabase) {
+      try {
+        for (const orderId of [reservation.makerOrderId, reservation.takerOrderId]) {
+          const entry = orderBook.getOrder(orderId);
+          if (!entry) continue;
+          await supabase
+            .from('orders')
+            .update({
+              status: entry.order.status,
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', orderId);
+        }
+
+        console.log('✅ Order statuses updated in database');
+      } catch (error) {
+        console.error('❌ Failed to update order statuses:', error);
+      }
+    }
+  });
+
+  // Session failed or timed out: the quantity went back to both orders
+  orderMatcher.on('released', ({ reservation, reason, orders }: TradeReleased) => {
+    console.log(`↩️  Trade ${reservation.tradeId} released: ${reason}`);
+
+    publish([ordersChannel(reservation.makerAddress), ordersChannel(reservation.takerAddress)], {
+      type: 'trade.released',
+      data: {
+        tradeId: reservation.tradeId,
+        makerOrderId: reservation.makerOrderId,
+        takerOrderId: reservation.takerOrderId,
+        quantity: reservation.quantity.toString(),
+        reason,
+      },
+      timestamp: Date.now()
+    });
+
+    for (const order of orders) {
+      if (order.status === 'open' || order.status === 'partially_filled') {
+        publishOrderEvent('order.updated', order);
+      }
+    }
+  });
+
+  // Unwind trades whose session was not signed by both sides in time
+  signingDeadlines = new SigningDeadlineSweeper(tradeSessions, { now });
+  signingDeadlines.on('expired', ({ session, missingSigners }: ExpiredTradeSession) => {
+    console.log(`⌛ Trade session ${session.tradeId} expired unsigned (missing: ${missingSigners.join(', ')})`);
+
+    if (orderBook.getReservation(session.tradeId)) {
+      orderMatcher.releaseTrade(session.tradeId, 'session not signed before its deadline');
+    }
+
+    sendToAddresses([session.makerAddress, session.takerAddress], {
+      type: 'session.expired',
+      data: {
+        tradeId: session.tradeId,
+        missingSigners,
+        strikes: Object.fromEntries(missingSigners.map((address) => [address, signingDeadlines.getStrikes(address)])),
+      },
+      timestamp: Date.now()
+    });
+  });
+  signingDeadlines.start();
+
+  // Reservations restored from the journal get their timers back
+  orderMatcher.resumeReservations();
+
+  // Take orders off the book at their expiry
+  expirySweeper = new ExpirySweeper(orderBook, { intervalMs: env.server.expirySweepIntervalMs, now, triggerBook });
+  expirySweeper.on('expired', async (order: OrderRecord) => {
+    console.log(`⌛ Order ${order.id} expired`);
+
+    publishOrderEvent('order.expired', order);
+
+    if (supabase) {
+      try {
+        await supabase
+          .from('orders')
+          .update({
+            status: 'expired',
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', order.id);
+      } catch (error) {
+        console.error('❌ Failed to persist order expiry:', error);
+      }
+    }
+  });
+  expirySweeper.start();
+
+  // IOC remainders and killed FOK orders
+  orderMatcher.on('cancelled', ({ order, reason }: TimeInForceCancellation) => {
+    console.log(`⏱️  Order ${order.id} cancelled: ${reason}`);
+    publishCancelled(order, undefined, reason);
+  });
+
+  // Matches between a wallet and itself that were not executed
+  orderMatcher.on('selfTrade', (prevented: SelfTradePrevented) => {
+    console.log(`🚫 Self-trade prevented for ${prevented.address} (${prevented.mode})`);
+
+    publish([ordersChannel(prevented.address)], {
+      type: 'order.selfTradePrevented',
+      data: {
+        mode: prevented.mode,
+        takerOrderId: prevented.takerOrderId,
+        makerOrderId: prevented.makerOrderId,
+        quantity: prevented.quantity.toString(),
+        orders: prevented.orders.map(serializeOrder),
+      },
+      timestamp: Date.now()
+    });
+
+    for (const order of prevented.orders) {
+      if (order.status === 'cancelled') {
+        publishCancelled(order, undefined, `self-trade prevention (${prevented.mode})`);
+      } else {
+        publishOrderEvent('order.updated', order);
+      }
+    }
+  });
+
+  // Market order outcome for the maker
+  orderMatcher.on('executed', (execution: MarketOrderExecution) => {
+    publish([ordersChannel(execution.order.maker)], {
+      type: 'order.executed',
+      data: {
+        ...serializeOrder(execution.order),
+        filledQuantity: execution.filledQuantity.toString(),
+        averagePrice: execution.averagePrice?.toString(),
+        tradeIds: execution.tradeIds,
+      },
+      timestamp: Date.now()
+    });
+  });
+
+  // Trigger order lifecycle for the maker
+  triggerBook.on('placed', (order: OrderRecord) => {
+    publishTrigger('trigger.placed', order);
+  });
+  triggerBook.on('triggered', ({ order, lastPrice }: TriggerFired) => {
+    console.log(`🎯 Trigger order ${order.id} triggered at ${lastPrice}`);
+    publishTrigger('trigger.triggered', order, { lastPrice: lastPrice.toString() });
+  });
+  triggerBook.on('activated', (order: OrderRecord) => {
+    publishTrigger('trigger.activated', order);
+    publishCreated(order);
+  });
+  triggerBook.on('rejected', ({ order, reason }: TriggerRejection) => {
+    console.log(`❌ Trigger order ${order.id} rejected on activation: ${reason}`);
+    publishTrigger('trigger.rejected', order, { reason });
+  });
+  triggerBook.on('cancelled', (order: OrderRecord) => {
+    publishTrigger('trigger.cancelled', order);
+  });
+  triggerBook.on('expired', (order: OrderRecord) => {
+    console.log(`⌛ Trigger order ${order.id} expired`);
+    publishTrigger('trigger.expired', order);
+  });
+
+  // REST routes share the port with the WebSocket upgrade
+  const router = new OrderBookRouter(new OrderBookAPI(orderBook, orderVerifier), {
+    onOrderCreated: async (order) => {
+      publishCreated(order);
+      await orderMatcher.onNewOrder(order);
+    },
+    onOrderCancelled: (order) => publishCancelled(order),
+  });
+
   // Create HTTP server
-  const server = createServer();
+  const server = createServer(async (req, res) => {
+    const handled = await router.handle(req, res);
+    if (!handled) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 'not_found', message: `No route for ${req.method} ${req.url}` } }));
+    }
+  });
   
   // Create WebSocket server
   const wss = new WebSocketServer({ server });
@@ -147,7 +387,8 @@ export async function startWebSocketServer() {
     
     clients.set(clientId, {
       ws,
-      isAlive: true
+      isAlive: true,
+      subscriptions: new Set(),
     });
 
     console.log(`✅ New client connected: ${clientId} (Total: ${clients.size})`);
@@ -166,6 +407,10 @@ export async function startWebSocketServer() {
 
         // Handle different message types
         switch (message.type) {
+          case 'auth.challenge':
+            await handleAuthChallenge(ws, clientId, message);
+            break;
+          
           case 'auth':
             await handleAuth(ws, clientId, message);
             break;
@@ -182,10 +427,34 @@ export async function startWebSocketServer() {
             await handleOrderCancel(ws, clientId, message);
             break;
           
+          case 'order.cancelAll':
+            await handleOrderCancelAll(ws, clientId, message);
+            break;
+          
+          case 'account.selfTradePrevention':
+            await handleSelfTradePrevention(ws, clientId, message);
+            break;
+          
+          case 'account.sessionKey':
+            await handleSessionKey(ws, clientId, message);
+            break;
+          
+          case 'subscribe':
+            await handleSubscribe(ws, clientId, message);
+            break;
+          
+          case 'unsubscribe':
+            await handleUnsubscribe(ws, clientId, message);
+            break;
+          
           case 'orderbook.subscribe':
             await handleOrderbookSubscribe(ws, clientId, message);
             break;
           
+          case 'orderbook.snapshot':
+            await handleOrderbookSnapshot(ws, clientId, message);
+            break;
+          
           case 'session.sign':
             await handleSessionSign(ws, clientId, message);
             break;
@@ -211,6 +480,7 @@ export async function startWebSocketServer() {
 
     ws.on('close', () => {
       clients.delete(clientId);
+      walletAuth.revokeConnection(clientId);
       console.log(`👋 Client disconnected: ${clientId} (Total: ${clients.size})`);
     });
 
@@ -228,10 +498,17 @@ export async function startWebSocketServer() {
 
   wss.on('close', () => {
     clearInterval(heartbeatInterval);
+    expirySweeper.stop();
+    signingDeadlines.stop();
+    triggerBook.close();
+    orderMatcher.close();
+    orderBookJournal.stop();
+    orderBookJournal.snapshot();
   });
 
   server.listen(PORT, () => {
     console.log(`✅ WebSocket server running on ws://localhost:${PORT}`);
+    console.log(`🌐 REST API available on http://localhost:${PORT}`);
     console.log(`📡 Ready to accept connections...`);
   });
 
@@ -252,14 +529,67 @@ function getChannelId(): string {
   return '0x0000000000000000000000000000000000000000000000000000000000000000';
 }
 
+// Helper to safely convert to BigInt (handle scientific notation)
+function toBigInt(value: any): bigint {
+  const str = String(value);
+  // Integer strings convert exactly; parseFloat would drop precision
+  if (/^\d+$/.test(str)) {
+    return BigInt(str);
+  }
+  // Remove any scientific notation or decimals
+  const num = Math.floor(parseFloat(str));
+  return BigInt(num);
+}
+
 // Handler functions
+async function handleAuthChallenge(ws: WebSocket, clientId: string, message: any) {
+  try {
+    const { address } = message.data ?? {};
+    if (!address) {
+      throw new Error('Missing required field: address');
+    }
+
+    const challenge = walletAuth.issueChallenge(clientId, address);
+    console.log(`🔐 Issued auth challenge to ${clientId} for ${challenge.address}`);
+
+    ws.send(JSON.stringify({
+      type: 'auth.challenge',
+      data: {
+        address: challenge.address,
+        nonce: challenge.nonce,
+        message: challenge.message,
+        expiresAt: challenge.expiresAt,
+      },
+      timestamp: Date.now()
+    }));
+  } catch (error) {
+    ws.send(JSON.stringify({
+      type: 'auth.error',
+      message: error instanceof Error ? error.message : 'Could not issue challenge',
+      timestamp: Date.now()
+    }));
+  }
+}
+
 async function handleAuth(ws: WebSocket, clientId: string, message: any) {
   try {
-    const { address, signature } = message.data;
+    const { nonce, signature } = message.data ?? {};
+    if (!nonce || !signature) {
+      throw new Error('Missing required fields: nonce, signature (request auth.challenge first)');
+    }
+
+    // Recover the signer of the challenge; only then trust the address
+    const address = walletAuth.verify(clientId, nonce, signature);
     
     // Store the authenticated address
     const client = clients.get(clientId);
     if (client) {
+      if (client.address && client.address.toLowerCase() !== address.toLowerCase()) {
+        // Private channels of the previous wallet no longer apply
+        client.subscriptions.forEach((channel) => {
+          if (channel.startsWith('orders:')) client.subscriptions.delete(channel);
+        });
+      }
       client.address = address;
     }
 
@@ -267,7 +597,7 @@ async function handleAuth(ws: WebSocket, clientId: string, message: any) {
     
     ws.send(JSON.stringify({
       type: 'auth.success',
-      data: { address },
+      data: { address, channelId: getChannelId() },
       timestamp: Date.now()
     }));
   } catch (error) {
@@ -291,25 +621,21 @@ async function handleOrderCreate(ws: WebSocket, clientId: string, message: any)
 
     const orderData = message.data;
     
-    // Helper to safely convert to BigInt (handle scientific notation)
-    const toBigInt = (value: any): bigint => {
-      const str = String(value);
-      // Remove any scientific notation or decimals
-      const num = Math.floor(parseFloat(str));
-      return BigInt(num);
-    };
-    
-    // Get a real channel ID (replace 0x0 with actual channel)
-    const channelId = getChannelId();
-    
     // Convert numeric strings to BigInt
+    // channelId is part of the signed order, so it is kept as sent (clients
+    // get the server's channel in auth.success)
     const order: OrderRecord = {
       ...orderData,
-      channelId, // Use real channel ID
       price: toBigInt(orderData.price),
       size: toBigInt(orderData.size),
-      minFill: toBigInt(orderData.minFill || orderData.size),
+      minFill: toBigInt(orderData.minFill ?? 0), // No per-execution minimum
+      allOrNone: orderData.allOrNone === true || undefined,
       remaining: toBigInt(orderData.size),
+      maxSlippageBps: orderData.maxSlippageBps !== undefined ? Number(orderData.maxSlippageBps) : undefined,
+      selfTradePrevention: orderData.selfTradePrevention || undefined, // '' signs as "account default"
+      triggerType: orderData.triggerType || undefined, // '' signs as "no trigger"
+      triggerPrice: orderData.triggerType ? toBigInt(orderData.triggerPrice) : undefined,
+      displaySize: orderData.displaySize !== undefined ? toBigInt(orderData.displaySize) : undefined,
       status: 'open',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
@@ -322,25 +648,41 @@ async function handleOrderCreate(ws: WebSocket, clientId: string, message: any)
       size: order.size.toString(),
     });
 
-    // Add order to orderbook
-    orderBook.createOrder(order);
+    if (order.maker?.toLowerCase() !== client.address.toLowerCase()) {
+      throw new Error('Order maker does not match authenticated address');
+    }
 
-    // Broadcast to all clients
-    broadcast({
-      type: 'order.created',
-      data: message.data,
-      timestamp: Date.now()
-    }, clientId);
+    // Signature must recover to the maker, nonce must be fresh
+    orderVerifier.verify(order);
+
+    // Trigger orders are held until the last traded price reaches them
+    if (order.triggerType !== undefined) {
+      const pending = triggerBook.add(order);
+      orderVerifier.markUsed(pending.maker, pending.nonce);
+
+      ws.send(JSON.stringify({
+        type: 'order.create.success',
+        data: serializeOrder(pending),
+        timestamp: Date.now()
+      }));
+      return;
+    }
+
+    // Add order to orderbook (post-only slide orders may come back repriced)
+    const placed = orderBook.createOrder(order);
+    orderVerifier.markUsed(placed.maker, placed.nonce);
+
+    publishCreated(placed, clientId);
 
     ws.send(JSON.stringify({
       type: 'order.create.success',
-      data: message.data,
+      data: serializeOrder(placed),
       timestamp: Date.now()
     }));
 
     // Attempt to match the order
     console.log('🔍 Checking for matches...');
-    const matches = await orderMatcher.onNewOrder(order);
+    const matches = await orderMatcher.onNewOrder(placed);
     
     if (matches.length > 0) {
       console.log(`✅ Created ${matches.length} matches`);
@@ -365,20 +707,58 @@ async function handleOrderUpdate(ws: WebSocket, clientId: string, message: any)
       throw new Error('Not authenticated');
     }
 
-    console.log(`✏️  Updating order ${message.data.id} for ${client.address}`);
+    const { id, price, size, minFill, expiry, nonce, signature } = message.data ?? {};
+    if (!id || !nonce || !signature) {
+      throw new Error('Missing required fields: id, nonce, signature');
+    }
 
-    // Broadcast to all clients
-    broadcast({
-      type: 'order.updated',
-      data: message.data,
-      timestamp: Date.now()
-    }, clientId);
+    console.log(`✏️  Amending order ${id} for ${client.address}`);
+
+    const entry = orderBook.getOrder(id);
+    if (!entry) {
+      throw new Error(`Order ${id} not found`);
+    }
+    if (entry.order.maker.toLowerCase() !== client.address.toLowerCase()) {
+      throw new Error('Only maker can amend order');
+    }
+
+    const amendment: OrderAmendment = {
+      price: price !== undefined ? toBigInt(price) : undefined,
+      size: size !== undefined ? toBigInt(size) : undefined,
+      minFill: minFill !== undefined ? toBigInt(minFill) : undefined,
+      expiry: expiry !== undefined ? Number(expiry) : undefined,
+      nonce,
+      signature,
+    };
+
+    // The amended order must carry the maker's signature over its new terms
+    const current = entry.order;
+    orderVerifier.verify({
+      ...current,
+      price: amendment.price ?? current.price,
+      size: amendment.size ?? current.size,
+      minFill: amendment.minFill ?? current.minFill,
+      expiry: amendment.expiry ?? current.expiry,
+      nonce,
+      signature,
+    });
+
+    const { order, priorityKept } = orderBook.amendOrder(id, client.address, amendment);
+    orderVerifier.markUsed(order.maker, nonce);
+
+    // Publish to the market's book and the maker's order feed
+    publishOrderEvent('order.updated', order, clientId, { priorityKept });
 
     ws.send(JSON.stringify({
       type: 'order.update.success',
-      data: message.data,
+      data: { ...serializeOrder(order), priorityKept },
       timestamp: Date.now()
     }));
+
+    // A cancel-replace may now cross the book
+    if (!priorityKept) {
+      await orderMatcher.onNewOrder(order);
+    }
   } catch (error) {
     ws.send(JSON.stringify({
       type: 'order.update.error',
@@ -395,18 +775,25 @@ async function handleOrderCancel(ws: WebSocket, clientId: string, message: any)
       throw new Error('Not authenticated');
     }
 
-    console.log(`❌ Cancelling order ${message.data.id} for ${client.address}`);
+    const orderId = message.data?.id;
+    if (!orderId) {
+      throw new Error('Missing required field: id');
+    }
 
-    // Broadcast to all clients
-    broadcast({
-      type: 'order.cancelled',
-      data: message.data,
-      timestamp: Date.now()
-    }, clientId);
+    console.log(`❌ Cancelling order ${orderId} for ${client.address}`);
+
+    // Pending trigger orders are not in the book yet (published as trigger.cancelled)
+    let order: OrderRecord;
+    if (triggerBook.get(orderId)) {
+      order = triggerBook.cancel(orderId, client.address);
+    } else {
+      order = orderBook.cancelOrder(orderId, client.address);
+      publishCancelled(order, clientId);
+    }
 
     ws.send(JSON.stringify({
       type: 'order.cancel.success',
-      data: message.data,
+      data: serializeOrder(order),
       timestamp: Date.now()
     }));
   } catch (error) {
@@ -418,39 +805,252 @@ async function handleOrderCancel(ws: WebSocket, clientId: string, message: any)
   }
 }
 
+async function handleOrderCancelAll(ws: WebSocket, clientId: string, message: any) {
+  try {
+    const client = clients.get(clientId);
+    if (!client?.address) {
+      throw new Error('Not authenticated');
+    }
+
+    const { baseToken, quoteToken } = message.data ?? {};
+    if (Boolean(baseToken) !== Boolean(quoteToken)) {
+      throw new Error('baseToken and quoteToken must be given together');
+    }
+
+    console.log(`❌ Cancelling all orders for ${client.address}${baseToken ? ` in ${baseToken}/${quoteToken}` : ''}`);
+
+    const cancelled = orderBook.cancelAllOrders(client.address, baseToken, quoteToken);
+    for (const order of cancelled) {
+      publishCancelled(order, clientId);
+    }
+    cancelled.push(...triggerBook.cancelAll(client.address, baseToken, quoteToken));
+
+    ws.send(JSON.stringify({
+      type: 'order.cancelAll.success',
+      data: {
+        baseToken,
+        quoteToken,
+        orderIds: cancelled.map((order) => order.id),
+      },
+      timestamp: Date.now()
+    }));
+  } catch (error) {
+    ws.send(JSON.stringify({
+      type: 'order.cancelAll.error',
+      message: error instanceof Error ? error.message : 'Order cancellation failed',
+      timestamp: Date.now()
+    }));
+  }
+}
+
+async function handleSelfTradePrevention(ws: WebSocket, clientId: string, message: any) {
+  try {
+    const client = clients.get(clientId);
+    if (!client?.address) {
+      throw new Error('Not authenticated');
+    }
+
+    // null clears the account setting (server default applies)
+    const mode = message.data?.mode ?? undefined;
+    orderMatcher.setAccountSelfTradePrevention(client.address, mode);
+    console.log(`🚫 Self-trade prevention for ${client.address}: ${mode ?? 'default'}`);
+
+    ws.send(JSON.stringify({
+      type: 'account.selfTradePrevention.success',
+      data: { address: client.address, mode: mode ?? null },
+      timestamp: Date.now()
+    }));
+  } catch (error) {
+    ws.send(JSON.stringify({
+      type: 'account.selfTradePrevention.error',
+      message: error instanceof Error ? error.message : 'Could not set self-trade prevention',
+      timestamp: Date.now()
+    }));
+  }
+}
+
+async function handleSessionKey(ws: WebSocket, clientId: string, message: any) {
+  try {
+    const client = clients.get(clientId);
+    if (!client?.address) {
+      throw new Error('Not authenticated');
+    }
+
+    // null removes the key (only wallet signatures are accepted)
+    const sessionKey = message.data?.sessionKey ?? null;
+    sessionSignatures.setSessionKey(client.address, sessionKey);
+    console.log(`🔑 Session key for ${client.address}: ${sessionKey ?? 'none'}`);
+
+    ws.send(JSON.stringify({
+      type: 'account.sessionKey.success',
+      data: { address: client.address, sessionKey },
+      timestamp: Date.now()
+    }));
+  } catch (error) {
+    ws.send(JSON.stringify({
+      type: 'account.sessionKey.error',
+      message: error instanceof Error ? error.message : 'Could not set session key',
+      timestamp: Date.now()
+    }));
+  }
+}
+
+async function handleSubscribe(ws: WebSocket, clientId: string, message: any) {
+  try {
+    const client = clients.get(clientId);
+    if (!client) {
+      throw new Error('Unknown client');
+    }
+
+    const requested = message.data?.channels;
+    if (!Array.isArray(requested) || requested.length === 0) {
+      throw new Error('Missing required field: channels');
+    }
+
+    // Validate everything before subscribing to anything
+    const channels = requested.map(parseChannel);
+    for (const channel of channels) {
+      if (channel.kind === 'orders' && channel.address !== client.address?.toLowerCase()) {
+        throw new Error(`Not authorized for channel ${channel.name}`);
+      }
+    }
+
+    channels.forEach((channel) => client.subscriptions.add(channel.name));
+    console.log(`📡 Client ${clientId} subscribed to ${channels.map((c) => c.name).join(', ')}`);
+
+    ws.send(JSON.stringify({
+      type: 'subscribe.success',
+      data: { channels: Array.from(client.subscriptions) },
+      timestamp: Date.now()
+    }));
+
+    // New book subscribers start from a snapshot
+    for (const channel of channels) {
+      if (channel.kind !== 'book') continue;
+      if (channel.baseToken && channel.quoteToken) {
+        sendSnapshot(ws, channel.baseToken, channel.quoteToken);
+      } else {
+        orderBook.getMarkets().forEach((book) => sendSnapshot(ws, book.baseToken, book.quoteToken));
+      }
+    }
+  } catch (error) {
+    ws.send(JSON.stringify({
+      type: 'subscribe.error',
+      message: error instanceof Error ? error.message : 'Subscribe failed',
+      timestamp: Date.now()
+    }));
+  }
+}
+
+async function handleUnsubscribe(ws: WebSocket, clientId: string, message: any) {
+  try {
+    const client = clients.get(clientId);
+    if (!client) {
+      throw new Error('Unknown client');
+    }
+
+    const requested = message.data?.channels;
+    if (!Array.isArray(requested) || requested.length === 0) {
+      throw new Error('Missing required field: channels');
+    }
+
+    requested.map(parseChannel).forEach((channel) => client.subscriptions.delete(channel.name));
+    console.log(`📡 Client ${clientId} unsubscribed (${client.subscriptions.size} remaining)`);
+
+    ws.send(JSON.stringify({
+      type: 'unsubscribe.success',
+      data: { channels: Array.from(client.subscriptions) },
+      timestamp: Date.now()
+    }));
+  } catch (error) {
+    ws.send(JSON.stringify({
+      type: 'unsubscribe.error',
+      message: error instanceof Error ? error.message : 'Unsubscribe failed',
+      timestamp: Date.now()
+    }));
+  }
+}
+
 async function handleOrderbookSubscribe(ws: WebSocket, clientId: string, message: any) {
-  console.log(`📊 Client ${clientId} subscribed to orderbook`);
+  const client = clients.get(clientId);
+  const { baseToken, quoteToken, depth } = message.data ?? {};
+
+  // Without a pair the client follows every market
+  const channel = baseToken && quoteToken ? bookChannel(baseToken, quoteToken) : 'book:*';
+  client?.subscriptions.add(channel);
+
+  console.log(`📊 Client ${clientId} subscribed to ${channel}`);
   
   ws.send(JSON.stringify({
     type: 'orderbook.subscribed',
+    data: { channel },
+    timestamp: Date.now()
+  }));
+
+  if (channel === 'book:*') {
+    orderBook.getMarkets().forEach((book) => sendSnapshot(ws, book.baseToken, book.quoteToken, depth));
+  } else {
+    sendSnapshot(ws, baseToken, quoteToken, depth);
+  }
+}
+
+/**
+ * Resend a snapshot, e.g. after the client spotted a gap in delta sequences
+ */
+async function handleOrderbookSnapshot(ws: WebSocket, clientId: string, message: any) {
+  const { baseToken, quoteToken, depth } = message.data ?? {};
+  if (!baseToken || !quoteToken) {
+    ws.send(JSON.stringify({
+      type: 'orderbook.snapshot.error',
+      message: 'Missing required fields: baseToken, quoteToken',
+      timestamp: Date.now()
+    }));
+    return;
+  }
+
+  console.log(`📊 Client ${clientId} requested snapshot for ${marketKey(baseToken, quoteToken)}`);
+  sendSnapshot(ws, baseToken, quoteToken, depth);
+}
+
+function sendSnapshot(ws: WebSocket, baseToken: string, quoteToken: string, depth?: number) {
+  ws.send(JSON.stringify({
+    type: 'orderbook.snapshot',
+    data: depthFeed.snapshot(baseToken, quoteToken, depth),
     timestamp: Date.now()
   }));
 }
 
 async function handleSessionSign(ws: WebSocket, clientId: string, message: any) {
+  const tradeId = message.data?.tradeId;
   try {
     const client = clients.get(clientId);
     if (!client?.address) {
       throw new Error('Not authenticated');
     }
 
-    const { tradeId, signature, signerAddress } = message.data;
+    const { signature, signerAddress } = message.data;
     
     if (!tradeId || !signature || !signerAddress) {
       throw new Error('Missing required fields: tradeId, signature, signerAddress');
     }
+    if (signerAddress.toLowerCase() !== client.address.toLowerCase()) {
+      throw new SessionSignatureError('not_participant', `Cannot sign for ${signerAddress} as ${client.address}`);
+    }
 
     console.log(`✍️  Received signature for trade ${tradeId} from ${signerAddress}`);
 
     // Get pending session
-    const pendingSession = getPendingSession(tradeId);
+    const pendingSession = tradeSessions.getPending(tradeId);
     if (!pendingSession) {
       throw new Error(`No pending session found for trade ${tradeId}`);
     }
+    if (now() >= pendingSession.signingDeadline) {
+      throw new Error(`Signing deadline for trade ${tradeId} has passed`);
+    }
 
-    // Store the signature
-    pendingSession.signatures.set(signerAddress.toLowerCase() as `0x${string}`, signature);
-    setPendingSession(tradeId, pendingSession);
+    // Store the signature once it recovers to the participant
+    const participant = sessionSignatures.verify(pendingSession, signerAddress, signature);
+    tradeSessions.addSignature(tradeId, participant, signature);
 
     console.log(`📝 Signature stored (${pendingSession.signatures.size}/2 signatures collected)`);
 
@@ -473,12 +1073,11 @@ async function handleSessionSign(ws: WebSocket, clientId: string, message: any)
     // If all signatures collected, submit to ClearNode
     if (makerSigned && takerSigned) {
       console.log(`🎉 All signatures collected for trade ${tradeId}, submitting to ClearNode...`);
-      
+      const participants = [pendingSession.makerAddress, pendingSession.takerAddress];
+
       try {
-        await submitSessionToClearNode(pendingSession);
-        
-        // Notify all clients
-        broadcast({
+        orderMatcher.markTradeSubmitted(tradeId);
+        sendToAddresses(participants, {
           type: 'session.submitted',
           data: {
             tradeId,
@@ -488,15 +1087,37 @@ async function handleSessionSign(ws: WebSocket, clientId: string, message: any)
           timestamp: Date.now()
         });
 
-        console.log(`✅ Session ${tradeId} submitted to ClearNode successfully`);
+        // The fill only counts once ClearNode has created the app session
+        const appSessionId = await submitSessionToClearNode(pendingSession);
+        tradeSessions.setActive(toActiveTradeSession(pendingSession, appSessionId));
+        orderMatcher.commitTrade(tradeId);
+        tradeSessions.removePending(tradeId);
+
+        sendToAddresses(participants, {
+          type: 'session.confirmed',
+          data: {
+            tradeId,
+            appSessionId,
+            status: orderMatcher.getFill(tradeId)?.status
+          },
+          timestamp: Date.now()
+        });
+
+        console.log(`✅ Session ${tradeId} confirmed by ClearNode as ${appSessionId}`);
       } catch (error) {
-        console.error(`❌ Failed to submit session to ClearNode:`, error);
+        const reason = error instanceof Error ? error.message : 'Failed to submit session';
+        console.error(`❌ ClearNode did not create session ${tradeId}:`, error);
+        tradeSessions.removePending(tradeId);
+        if (orderBook.getReservation(tradeId)) {
+          orderMatcher.releaseTrade(tradeId, `session rejected: ${reason}`);
+        }
         
-        broadcast({
-          type: 'session.error',
+        sendToAddresses(participants, {
+          type: 'session.failed',
           data: {
             tradeId,
-            error: error instanceof Error ? error.message : 'Failed to submit session'
+            reason,
+            status: orderMatcher.getFill(tradeId)?.status
           },
           timestamp: Date.now()
         });
@@ -508,24 +1129,24 @@ async function handleSessionSign(ws: WebSocket, clientId: string, message: any)
     ws.send(JSON.stringify({
       type: 'session.sign.error',
       message: error instanceof Error ? error.message : 'Session signing failed',
+      data: {
+        tradeId,
+        reason: error instanceof SessionSignatureError ? error.code : undefined
+      },
       timestamp: Date.now()
     }));
   }
 }
 
-async function submitSessionToClearNode(pendingSession: any) {
+// Send a fully signed session to ClearNode and return the created app session ID
+async function submitSessionToClearNode(pendingSession: PendingAppSession): Promise<Hex> {
   try {
     // Reconstruct the full signed message with all signatures
     const signatures = [
       pendingSession.serverSignature, // Server signature (already added)
       pendingSession.signatures.get(pendingSession.makerAddress.toLowerCase() as `0x${string}`),
       pendingSession.signatures.get(pendingSession.takerAddress.toLowerCase() as `0x${string}`),
-    ];
-
-    const signedMessage = {
-      req: pendingSession.requestToSign,
-      sig: signatures,
-    };
+    ] as Hex[];
 
     console.log('📤 Submitting session to ClearNode:', {
       tradeId: pendingSession.tradeId,
@@ -537,17 +1158,20 @@ async function submitSessionToClearNode(pendingSession: any) {
       signatures: signatures.length
     });
 
-    // Send to ClearNode via WebSocket
-    const messageStr = JSON.stringify(signedMessage);
-    
-    // Use the nitroliteClient's WebSocket to send
-    if (nitroliteClient && nitroliteClient.isConnected) {
-      // Access the internal socket (we may need to expose a send method in NitroliteClient)
-      (nitroliteClient as any).socket?.send(messageStr);
-      console.log('✅ Session message sent to ClearNode');
-    } else {
-      throw new Error('Nitrolite client not connected');
+    // Keep the signed request ID and timestamp; ClearNode answers by that ID
+    const [requestId, , params, timestamp] = pendingSession.requestToSign as RPCData;
+    const response = await nitroliteClient.request<{ app_session_id?: Hex; appSessionId?: Hex }>(
+      RPCMethod.CreateAppSession,
+      params,
+      signatures,
+      { requestId, timestamp }
+    );
+
+    const appSessionId = response.app_session_id ?? response.appSessionId;
+    if (!appSessionId) {
+      throw new Error('ClearNode response has no app session ID');
     }
+    return appSessionId;
 
   } catch (error) {
     console.error('❌ Error submitting session to ClearNode:', error);
@@ -555,16 +1179,92 @@ async function submitSessionToClearNode(pendingSession: any) {
   }
 }
 
-// Broadcast to all connected clients except sender
-function broadcast(message: any, excludeClientId?: string) {
+// Send to every connection authenticated as one of the addresses
+function sendToAddresses(addresses: string[], message: any) {
+  const targets = new Set(addresses.map((address) => address.toLowerCase()));
   const messageStr = JSON.stringify(message);
-  clients.forEach((client, id) => {
-    if (id !== excludeClientId && client.ws.readyState === WebSocket.OPEN) {
+  clients.forEach((client) => {
+    if (client.address && targets.has(client.address.toLowerCase()) && client.ws.readyState === WebSocket.OPEN) {
       client.ws.send(messageStr);
     }
   });
 }
 
+// Send to every client subscribed to at least one of the channels, except
+// excludeClientId and connections signed in as excludeAddress
+function publish(channels: string[], message: any, excludeClientId?: string, excludeAddress?: string) {
+  const targets = new Set(channels);
+  channels.forEach((channel) => {
+    const wildcard = wildcardFor(channel);
+    if (wildcard) targets.add(wildcard);
+  });
+
+  const messageStr = JSON.stringify(message);
+  clients.forEach((client, id) => {
+    if (id === excludeClientId || client.ws.readyState !== WebSocket.OPEN) return;
+    if (excludeAddress && client.address?.toLowerCase() === excludeAddress.toLowerCase()) return;
+    for (const channel of client.subscriptions) {
+      if (targets.has(channel)) {
+        client.ws.send(messageStr);
+        return;
+      }
+    }
+  });
+}
+
+// Order with bigint fields as decimal strings, for JSON messages
+function serializeOrder(order: OrderRecord) {
+  return {
+    ...order,
+    price: order.price.toString(),
+    size: order.size.toString(),
+    minFill: order.minFill.toString(),
+    remaining: order.remaining.toString(),
+    triggerPrice: order.triggerPrice?.toString(),
+    displaySize: order.displaySize?.toString(),
+  };
+}
+
+// Order as other traders may see it: an iceberg order only shows its
+// current visible slice
+function publicOrder(order: OrderRecord) {
+  return serializeOrder(publicOrderView({ order, displayed: orderBook.getOrder(order.id)?.displayed }));
+}
+
+// Publish an order event to the maker's order feed, and to its market's
+// book unless it never rests there (IOC/FOK). The book gets publicOrder.
+function publishOrderEvent(type: string, order: OrderRecord, excludeClientId?: string, extra: Record<string, unknown> = {}) {
+  const message = (data: object) => ({ type, data: { ...data, ...extra }, timestamp: Date.now() });
+
+  if (!restsOnBook(order)) {
+    publish([ordersChannel(order.maker)], message(serializeOrder(order)), excludeClientId);
+  } else if (!isIceberg(order)) {
+    publish([bookChannel(order.baseToken, order.quoteToken), ordersChannel(order.maker)], message(serializeOrder(order)), excludeClientId);
+  } else {
+    publish([ordersChannel(order.maker)], message(serializeOrder(order)), excludeClientId);
+    publish([bookChannel(order.baseToken, order.quoteToken)], message(publicOrder(order)), excludeClientId, order.maker);
+  }
+}
+
+// Publish a new order (see publishOrderEvent)
+function publishCreated(order: OrderRecord, excludeClientId?: string) {
+  publishOrderEvent('order.created', order, excludeClientId);
+}
+
+// Publish a cancelled order, with the reason when the system cancelled it
+function publishCancelled(order: OrderRecord, excludeClientId?: string, reason?: string) {
+  publishOrderEvent('order.cancelled', order, excludeClientId, reason ? { reason } : {});
+}
+
+// Publish a trigger order lifecycle event to the maker's order feed
+function publishTrigger(type: string, order: OrderRecord, extra: Record<string, string> = {}) {
+  publish([ordersChannel(order.maker)], {
+    type,
+    data: { ...serializeOrder(order), ...extra },
+    timestamp: Date.now()
+  });
+}
+
 // Start the server
 if (import.meta.url === `file://${process.argv[1]}`) {
   startWebSocketServer().catch((error) => {
@@ -0,0 +1,18 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+
+// Mirrors the tsconfig paths
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@shared': path.resolve(root, '../shared'),
+      '@server': path.resolve(root, 'src'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
+});
@@ -1,4 +1,7 @@
 export * from './types/order';
 export * from './types/fill';
 export * from './types/channel';
+export * from './types/market';
 export * from './math/partialFill';
+export * from './math/notional';
+export * from './markets/registry';
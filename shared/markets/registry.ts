@@ -0,0 +1,105 @@
+import type { MarketConfig, TokenInfo } from '../types/market';
+import { computeNotional, PRICE_DECIMALS } from '../math/notional';
+
+// Token addresses (Base mainnet)
+export const TOKENS = {
+  ETH: { address: '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE', symbol: 'ETH', decimals: 18 },
+  WETH: { address: '0x4200000000000000000000000000000000000006', symbol: 'WETH', decimals: 18 },
+  USDC: { address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', symbol: 'USDC', decimals: 6 },
+} as const satisfies Record<string, TokenInfo>;
+
+const PRICE_CENT = 10n ** BigInt(PRICE_DECIMALS - 2);
+
+export const DEFAULT_MARKETS: readonly MarketConfig[] = [
+  {
+    symbol: 'ETH/USDC',
+    base: TOKENS.ETH,
+    quote: TOKENS.USDC,
+    tickSize: PRICE_CENT, // 0.01 USDC
+    lotSize: 10n ** 14n, // 0.0001 ETH
+    minNotional: 10n ** 6n, // 1 USDC
+  },
+  {
+    symbol: 'WETH/USDC',
+    base: TOKENS.WETH,
+    quote: TOKENS.USDC,
+    tickSize: PRICE_CENT, // 0.01 USDC
+    lotSize: 10n ** 14n, // 0.0001 WETH
+    minNotional: 10n ** 6n, // 1 USDC
+  },
+  {
+    // Same-asset swap, priced as a ratio
+    symbol: 'USDC/USDC',
+    base: TOKENS.USDC,
+    quote: TOKENS.USDC,
+    tickSize: 10n ** BigInt(PRICE_DECIMALS - 4), // 0.0001
+    lotSize: 10n ** 4n, // 0.01 USDC
+    minNotional: 10n ** 6n, // 1 USDC
+  },
+];
+
+export interface OrderGridInput {
+  readonly price: bigint;
+  readonly size: bigint;
+  readonly minFill: bigint;
+}
+
+function pairKey(baseToken: string, quoteToken: string): string {
+  return `${baseToken.toLowerCase()}/${quoteToken.toLowerCase()}`;
+}
+
+export class MarketRegistry {
+  private readonly markets = new Map<string, MarketConfig>();
+
+  constructor(markets: readonly MarketConfig[] = DEFAULT_MARKETS) {
+    markets.forEach((market) => this.register(market));
+  }
+
+  register(market: MarketConfig): void {
+    if (market.tickSize <= 0n || market.lotSize <= 0n) {
+      throw new Error(`Market ${market.symbol} needs a positive tick and lot size`);
+    }
+    this.markets.set(pairKey(market.base.address, market.quote.address), market);
+  }
+
+  get(baseToken: string, quoteToken: string): MarketConfig | undefined {
+    return this.markets.get(pairKey(baseToken, quoteToken));
+  }
+
+  require(baseToken: string, quoteToken: string): MarketConfig {
+    const market = this.get(baseToken, quoteToken);
+    if (!market) {
+      throw new Error(`Unsupported market ${baseToken}/${quoteToken}`);
+    }
+    return market;
+  }
+
+  list(): MarketConfig[] {
+    return Array.from(this.markets.values());
+  }
+}
+
+/**
+ * Check an order against a market's tick, lot and minimum notional.
+ * Returns the reason it does not fit, or undefined if it does.
+ */
+export function validateOrderGrid(market: MarketConfig, order: OrderGridInput): string | undefined {
+  if (order.price % market.tickSize !== 0n) {
+    return `Price ${order.price} is not a multiple of tick size ${market.tickSize}`;
+  }
+  if (order.size % market.lotSize !== 0n) {
+    return `Size ${order.size} is not a multiple of lot size ${market.lotSize}`;
+  }
+  if (order.minFill % market.lotSize !== 0n) {
+    return `minFill ${order.minFill} is not a multiple of lot size ${market.lotSize}`;
+  }
+
+  const notional = computeNotional(market, order.size, order.price);
+  if (notional < market.minNotional) {
+    return `Order notional ${notional} below minimum ${market.minNotional} ${market.quote.symbol}`;
+  }
+
+  return undefined;
+}
+
+export const marketRegistry = new MarketRegistry();
@@ -0,0 +1,42 @@
+import type { MarketConfig } from '../types/market';
+
+/** Fixed-point precision of order prices */
+export const PRICE_DECIMALS = 18;
+
+const PRICE_SCALE = 10n ** BigInt(PRICE_DECIMALS);
+
+/**
+ * Quote token amount (raw units) for a base quantity at a price,
+ * rounded down
+ */
+export function computeNotional(market: MarketConfig, quantity: bigint, price: bigint): bigint {
+  if (quantity < 0n || price < 0n) {
+    throw new Error('Quantity and price must not be negative');
+  }
+
+  const baseScale = 10n ** BigInt(market.base.decimals);
+  const quoteScale = 10n ** BigInt(market.quote.decimals);
+
+  return (quantity * price * quoteScale) / (baseScale * PRICE_SCALE);
+}
+
+/**
+ * Volume-weighted average price of a set of fills, rounded down.
+ * Undefined when nothing was filled.
+ */
+export function averageFillPrice(fills: ReadonlyArray<{ quantity: bigint; price: bigint }>): bigint | undefined {
+  let quantity = 0n;
+  let weighted = 0n;
+  for (const fill of fills) {
+    quantity += fill.quantity;
+    weighted += fill.quantity * fill.price;
+  }
+  return quantity === 0n ? undefined : weighted / quantity;
+}
+
+export const notionalMath = {
+  computeNotional,
+  averageFillPrice,
+};
+
+export default notionalMath;
@@ -1,11 +1,43 @@
+/**
+ * Fill terms of an order
+ *
+ * - minFill: smallest quantity per execution. When less than minFill
+ *   remains, the final residual may still fill in one execution, so an
+ *   order is never stranded by its own minimum.
+ * - allOrNone: the order only executes for its entire remaining quantity,
+ *   in a single execution. Independent of minFill.
+ */
+export interface FillTerms {
+  readonly minFill?: bigint;
+  readonly allOrNone?: boolean;
+}
+
+export type FillBlockedBy = 'minFill' | 'allOrNone';
+
 export interface PartialFillComputation {
   readonly requested: bigint;
   readonly remainingBefore: bigint;
-  readonly executed: bigint;
+  readonly executed: bigint; // 0n when the fill terms block the execution
   readonly remainingAfter: bigint;
+  readonly blockedBy?: FillBlockedBy;
 }
 
-export function computePartialFill(requested: bigint, remaining: bigint): PartialFillComputation {
+/**
+ * Smallest execution an order with `remaining` left accepts
+ */
+export function minimumExecution(remaining: bigint, terms: FillTerms = {}): bigint {
+  if (terms.allOrNone) {
+    return remaining;
+  }
+  const minFill = terms.minFill ?? 0n;
+  return minFill < remaining ? minFill : remaining;
+}
+
+export function computePartialFill(
+  requested: bigint,
+  remaining: bigint,
+  terms: FillTerms = {}
+): PartialFillComputation {
   if (requested <= 0n) {
     throw new Error('Requested quantity must be positive');
   }
@@ -13,19 +45,28 @@ export function computePartialFill(requested: bigint, remaining: bigint): Partia
     throw new Error('Order has no remaining size');
   }
 
-  const executed = requested > remaining ? remaining : requested;
-  const remainingAfter = remaining - executed;
+  const executable = requested > remaining ? remaining : requested;
+  if (executable < minimumExecution(remaining, terms)) {
+    return {
+      requested,
+      remainingBefore: remaining,
+      executed: 0n,
+      remainingAfter: remaining,
+      blockedBy: terms.allOrNone ? 'allOrNone' : 'minFill',
+    };
+  }
 
   return {
     requested,
     remainingBefore: remaining,
-    executed,
-    remainingAfter,
+    executed: executable,
+    remainingAfter: remaining - executable,
   };
 }
 
 export const partialFillMath = {
   computePartialFill,
+  minimumExecution,
 };
 
 export default partialFillMath;
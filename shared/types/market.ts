@@ -0,0 +1,21 @@
+export interface TokenInfo {
+  readonly address: string;
+  readonly symbol: string;
+  readonly decimals: number;
+}
+
+/**
+ * Trading rules for a base/quote pair.
+ *
+ * Prices are quote-per-base scaled by 10^PRICE_DECIMALS (independent of
+ * token decimals); sizes are raw base token units; notional is raw quote
+ * token units.
+ */
+export interface MarketConfig {
+  readonly symbol: string;
+  readonly base: TokenInfo;
+  readonly quote: TokenInfo;
+  readonly tickSize: bigint;
+  readonly lotSize: bigint;
+  readonly minNotional: bigint;
+}
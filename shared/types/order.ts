@@ -1,5 +1,100 @@
 export type OrderSide = 'buy' | 'sell';
-export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled';
+export type OrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired';
+
+/**
+ * How long an order stays working
+ *
+ * - GTC: Rests until filled or cancelled (expiry must be 0)
+ * - GTD: Rests until `expiry` (default when omitted)
+ * - IOC: Fills what it can immediately, the rest is cancelled
+ * - FOK: Fills completely and immediately or not at all
+ * - POST_ONLY: Only adds liquidity; rejected if it would cross the book
+ * - POST_ONLY_SLIDE: Only adds liquidity; repriced one tick behind the
+ *   opposite best price if it would cross
+ */
+export type TimeInForce = 'GTC' | 'GTD' | 'IOC' | 'FOK' | 'POST_ONLY' | 'POST_ONLY_SLIDE';
+
+export const TIME_IN_FORCE_VALUES: readonly TimeInForce[] = ['GTC', 'GTD', 'IOC', 'FOK', 'POST_ONLY', 'POST_ONLY_SLIDE'];
+
+export const DEFAULT_TIME_IN_FORCE: TimeInForce = 'GTD';
+
+/**
+ * - limit: Trades at `price` or better
+ * - market: Walks the opposite side up to a worst price (`price`) and/or
+ *   `maxSlippageBps` away from the best price on arrival; never rests
+ */
+export type OrderType = 'limit' | 'market';
+
+/** Largest accepted maxSlippageBps (100%) */
+export const MAX_SLIPPAGE_BPS = 10_000;
+
+/**
+ * What happens when an order would trade against the same wallet
+ * (taker = newest, resting maker = oldest)
+ *
+ * - cancel_newest: Cancel the taker's remainder
+ * - cancel_oldest: Cancel the resting order, keep matching the taker
+ * - cancel_both: Cancel both
+ * - decrement_and_cancel: Shrink both by the smaller remaining quantity
+ *   without trading; whichever reaches zero is cancelled
+ */
+export type SelfTradePrevention = 'cancel_newest' | 'cancel_oldest' | 'cancel_both' | 'decrement_and_cancel';
+
+export const SELF_TRADE_PREVENTION_MODES: readonly SelfTradePrevention[] = [
+  'cancel_newest',
+  'cancel_oldest',
+  'cancel_both',
+  'decrement_and_cancel',
+];
+
+/**
+ * Conditional orders wait in the trigger book until the last traded price
+ * reaches `triggerPrice`, then enter the book as a market or limit order
+ * (per `orderType`):
+ *
+ * - stop: Buy once price rises to the trigger, sell once it falls to it
+ * - take_profit: Buy once price falls to the trigger, sell once it rises to it
+ */
+export type TriggerType = 'stop' | 'take_profit';
+
+export const TRIGGER_TYPES: readonly TriggerType[] = ['stop', 'take_profit'];
+
+interface ExecutionFields {
+  readonly orderType?: OrderType;
+  readonly timeInForce?: TimeInForce;
+}
+
+export function orderTypeOf(order: ExecutionFields): OrderType {
+  return order.orderType ?? 'limit';
+}
+
+/**
+ * Market orders default to IOC, limit orders to DEFAULT_TIME_IN_FORCE
+ */
+export function timeInForceOf(order: ExecutionFields): TimeInForce {
+  return order.timeInForce ?? (orderTypeOf(order) === 'market' ? 'IOC' : DEFAULT_TIME_IN_FORCE);
+}
+
+/**
+ * IOC and FOK orders only ever take liquidity; everything else can rest
+ */
+export function restsOnBook(order: ExecutionFields): boolean {
+  const timeInForce = timeInForceOf(order);
+  return timeInForce !== 'IOC' && timeInForce !== 'FOK';
+}
+
+export function isPostOnly(order: ExecutionFields): boolean {
+  const timeInForce = timeInForceOf(order);
+  return timeInForce === 'POST_ONLY' || timeInForce === 'POST_ONLY_SLIDE';
+}
+
+/**
+ * Iceberg orders show `displaySize` in the book and refill it from the
+ * hidden remainder; 0 or no displaySize shows the whole order
+ */
+export function isIceberg(order: { readonly displaySize?: bigint }): boolean {
+  return order.displaySize !== undefined && order.displaySize > 0n;
+}
 
 export interface OrderIntent {
   readonly id: string;
@@ -9,8 +104,16 @@ export interface OrderIntent {
   readonly side: OrderSide;
   readonly price: bigint;
   readonly size: bigint;
-  readonly minFill: bigint;
+  readonly minFill: bigint; // Minimum per execution, see FillTerms in math/partialFill
+  readonly allOrNone?: boolean; // Only fill the whole remaining size at once
   readonly expiry: number;
+  readonly timeInForce?: TimeInForce;
+  readonly orderType?: OrderType;
+  readonly maxSlippageBps?: number; // Market orders only
+  readonly selfTradePrevention?: SelfTradePrevention; // Falls back to the account setting
+  readonly triggerType?: TriggerType;
+  readonly triggerPrice?: bigint; // Same scale as price
+  readonly displaySize?: bigint; // Iceberg orders: visible slice, the rest stays hidden
   readonly channelId: string;
   readonly nonce: string;
   readonly signature: string;
@@ -21,4 +124,90 @@ export interface OrderRecord extends OrderIntent {
   remaining: bigint;
   readonly createdAt: string;
   updatedAt: string;
+  readonly triggeredAt?: string; // Set when a trigger order was activated
+}
+
+export interface TypedDataField {
+  readonly name: string;
+  readonly type: string;
+}
+
+/**
+ * EIP-712 schema for signed orders. The signature on an OrderIntent covers
+ * every field below (not `id`), so any party can verify an order offline.
+ */
+export const ORDER_EIP712_DOMAIN = {
+  name: 'P2P Order Book',
+  version: '1',
+};
+
+export const ORDER_EIP712_TYPES: Record<string, TypedDataField[]> = {
+  Order: [
+    { name: 'maker', type: 'address' },
+    { name: 'baseToken', type: 'address' },
+    { name: 'quoteToken', type: 'address' },
+    { name: 'side', type: 'string' },
+    { name: 'price', type: 'uint256' },
+    { name: 'size', type: 'uint256' },
+    { name: 'minFill', type: 'uint256' },
+    { name: 'allOrNone', type: 'bool' },
+    { name: 'expiry', type: 'uint64' },
+    { name: 'timeInForce', type: 'string' },
+    { name: 'orderType', type: 'string' },
+    { name: 'maxSlippageBps', type: 'uint32' },
+    { name: 'selfTradePrevention', type: 'string' },
+    { name: 'triggerType', type: 'string' },
+    { name: 'triggerPrice', type: 'uint256' },
+    { name: 'displaySize', type: 'uint256' },
+    { name: 'channelId', type: 'bytes32' },
+    { name: 'nonce', type: 'string' },
+  ],
+};
+
+export interface OrderTypedDataMessage {
+  readonly maker: string;
+  readonly baseToken: string;
+  readonly quoteToken: string;
+  readonly side: OrderSide;
+  readonly price: string;
+  readonly size: string;
+  readonly minFill: string;
+  readonly allOrNone: boolean;
+  readonly expiry: number;
+  readonly timeInForce: TimeInForce;
+  readonly orderType: OrderType;
+  readonly maxSlippageBps: number;
+  readonly selfTradePrevention: SelfTradePrevention | ''; // '' = account default
+  readonly triggerType: TriggerType | ''; // '' = not a trigger order
+  readonly triggerPrice: string;
+  readonly displaySize: string; // '0' = fully visible
+  readonly channelId: string;
+  readonly nonce: string;
+}
+
+/**
+ * EIP-712 message for an order (integers as decimal strings, optional
+ * fields defaulted so orders that omit them still verify)
+ */
+export function toOrderTypedData(intent: Omit<OrderIntent, 'id' | 'signature'>): OrderTypedDataMessage {
+  return {
+    maker: intent.maker,
+    baseToken: intent.baseToken,
+    quoteToken: intent.quoteToken,
+    side: intent.side,
+    price: intent.price.toString(),
+    size: intent.size.toString(),
+    minFill: intent.minFill.toString(),
+    allOrNone: intent.allOrNone ?? false,
+    expiry: intent.expiry,
+    timeInForce: timeInForceOf(intent),
+    orderType: orderTypeOf(intent),
+    maxSlippageBps: intent.maxSlippageBps ?? 0,
+    selfTradePrevention: intent.selfTradePrevention ?? '',
+    triggerType: intent.triggerType ?? '',
+    triggerPrice: (intent.triggerPrice ?? 0n).toString(),
+    displaySize: (intent.displaySize ?? 0n).toString(),
+    channelId: intent.channelId,
+    nonce: intent.nonce,
+  };
 }